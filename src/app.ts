@@ -1,15 +1,30 @@
 import "./config/env.js";
 import express from "express";
+import { batchRouter } from "./routes/batch.js";
+import { filesRouter } from "./routes/files.js";
+import { fontsRouter } from "./routes/fonts.js";
 import { healthRouter } from "./routes/health.js";
 import { imageRouter } from "./routes/image.js";
+import { jobsRouter } from "./routes/jobs.js";
 import { sceneRouter } from "./routes/scene.js";
+import { templatesRouter } from "./routes/templates.js";
+
+// Batches and queued jobs carry many scenes at once, so they get a larger
+// body limit than the other endpoints.
+const BATCH_BODY_LIMIT = process.env.BATCH_BODY_LIMIT || "20mb";
 
 export function createApp() {
   const app = express();
+  app.use(["/batch", "/jobs"], express.json({ limit: BATCH_BODY_LIMIT }));
   app.use(express.json());
 
   app.use(healthRouter);
+  app.use(filesRouter);
+  app.use(fontsRouter);
   app.use(sceneRouter);
+  app.use(templatesRouter);
+  app.use(batchRouter);
+  app.use(jobsRouter);
   app.use(imageRouter);
 
   return app;
@@ -3,8 +3,10 @@ export const DEFAULT_HEIGHT = 1080;
 export const DEFAULT_BG_COLOR = "#181A20";
 export const DEFAULT_TEXT_COLOR = "#fff";
 export const DEFAULT_FONT_SIZE = 64;
-export const DEFAULT_LETTER_SPACING = -5; // px
+export const DEFAULT_MIN_FONT_SIZE = 8;
+export const DEFAULT_LETTER_SPACING = 0; // px
 export const DEFAULT_PADDING = 80;
 export const FONT_FALLBACK_STACK =
   '"Segoe UI Emoji","Apple Color Emoji","Noto Color Emoji","sans-serif"';
 
+export const DEFAULT_IMAGE_QUALITY = 90;
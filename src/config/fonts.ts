@@ -1,7 +1,15 @@
 import { GlobalFonts } from "@napi-rs/canvas";
-import { join, resolve } from "path";
+import fontkit from "@pdf-lib/fontkit";
+import { readFileSync } from "fs";
+import { readdir, readFile } from "fs/promises";
+import { homedir } from "os";
+import { extname, join, resolve } from "path";
 import { fileURLToPath } from "url";
 import { FONT_FALLBACK_STACK } from "./constants.js";
+import {
+  FONT_FALLBACK_SCRIPTS,
+  type FontFallbackScript,
+} from "./scripts.js";
 
 const ROOT_DIR = resolve(fileURLToPath(new URL(".", import.meta.url)), "..", "..");
 
@@ -23,6 +31,8 @@ const FONT_WEIGHT_FILES = {
 
 export type FontWeightKey = keyof typeof FONT_WEIGHT_FILES;
 
+export const FONT_WEIGHT_KEYS = Object.keys(FONT_WEIGHT_FILES) as FontWeightKey[];
+
 const FONT_WEIGHT_CSS: Record<FontWeightKey, string> = {
   Thin: "100",
   ExtraLight: "200",
@@ -61,26 +71,19 @@ const FONT_WEIGHT_ALIASES: Record<string, FontWeightKey> = {
   "900": "Black",
 };
 
-export type FontName = "Estedad";
-
-const FONT_LIBRARY: Record<
-  FontName,
-  {
-    basePathAlias: keyof typeof FONT_PATH_ALIASES;
-    defaultWeight: FontWeightKey;
-    weights: Record<FontWeightKey, string>;
-  }
-> = {
-  Estedad: {
-    basePathAlias: "@Estedad",
-    defaultWeight: "Medium",
-    weights: FONT_WEIGHT_FILES,
-  },
-};
+export type FontName = string;
 
-export const DEFAULT_FONT_NAME: FontName = "Estedad";
+// Ordered family names per script. Entries are font library families or
+// fonts installed on the system.
+export type FontFallbacks = Partial<Record<FontFallbackScript, string[]>>;
 
-const registeredFontFamilies = new Set<string>();
+interface FontFamilyEntry {
+  builtIn: boolean;
+  defaultWeight?: FontWeightKey;
+  // Absolute font file paths per available weight.
+  weights: Partial<Record<FontWeightKey, string>>;
+  fallbacks?: FontFallbacks;
+}
 
 function resolveAliasPath(alias: string): string {
   const mapped =
@@ -88,6 +91,66 @@ function resolveAliasPath(alias: string): string {
   return join(ROOT_DIR, mapped);
 }
 
+function resolveBuiltInWeights(
+  basePathAlias: keyof typeof FONT_PATH_ALIASES,
+  files: Record<FontWeightKey, string>
+): Partial<Record<FontWeightKey, string>> {
+  const basePath = resolveAliasPath(basePathAlias);
+  return Object.fromEntries(
+    FONT_WEIGHT_KEYS.map((weight) => [weight, join(basePath, files[weight])])
+  );
+}
+
+const FONT_LIBRARY = new Map<FontName, FontFamilyEntry>([
+  [
+    "Estedad",
+    {
+      builtIn: true,
+      defaultWeight: "Medium",
+      weights: resolveBuiltInWeights("@Estedad", FONT_WEIGHT_FILES),
+      fallbacks: {
+        arabic: ["Noto Sans Arabic"],
+        hebrew: ["Noto Sans Hebrew", "DejaVu Sans"],
+        emoji: ["Noto Color Emoji"],
+      },
+    },
+  ],
+]);
+
+export const DEFAULT_FONT_NAME: FontName = "Estedad";
+
+const registeredFontFamilies = new Map<string, string>();
+
+type InspectedFont = {
+  unitsPerEm: number;
+  underlinePosition: number;
+  underlineThickness: number;
+  "OS/2"?: { yStrikeoutPosition?: number; yStrikeoutSize?: number };
+  hasGlyphForCodePoint(codePoint: number): boolean;
+};
+
+const inspectedFontCache = new Map<string, InspectedFont | null>();
+
+// Positions and thicknesses of text decorations as fractions of the font
+// size. Positions are measured upwards from the baseline.
+export interface FontDecorationMetrics {
+  underlinePosition: number;
+  underlineThickness: number;
+  strikeoutPosition: number;
+  strikeoutThickness: number;
+}
+
+const DEFAULT_DECORATION_METRICS: FontDecorationMetrics = {
+  underlinePosition: -0.1,
+  underlineThickness: 0.05,
+  strikeoutPosition: 0.3,
+  strikeoutThickness: 0.05,
+};
+
+export function getFontCssWeight(weight: FontWeightKey): string {
+  return FONT_WEIGHT_CSS[weight];
+}
+
 export function normalizeFontWeight(input: unknown): FontWeightKey | null {
   if (typeof input === "string" || typeof input === "number") {
     const value = String(input).toLowerCase().replace(/[^a-z0-9]/g, "");
@@ -98,7 +161,23 @@ export function normalizeFontWeight(input: unknown): FontWeightKey | null {
 }
 
 export function isFontName(value: string): value is FontName {
-  return Object.prototype.hasOwnProperty.call(FONT_LIBRARY, value as FontName);
+  return FONT_LIBRARY.has(value);
+}
+
+export function isBuiltInFont(fontName: FontName): boolean {
+  return FONT_LIBRARY.get(fontName)?.builtIn === true;
+}
+
+export function hasFontWeight(fontName: FontName, weight: FontWeightKey) {
+  return FONT_LIBRARY.get(fontName)?.weights[weight] !== undefined;
+}
+
+function resolveDefaultWeight(entry: FontFamilyEntry): FontWeightKey {
+  if (entry.defaultWeight) return entry.defaultWeight;
+  if (entry.weights.Regular) return "Regular";
+  return (
+    FONT_WEIGHT_KEYS.find((weight) => entry.weights[weight]) ?? "Regular"
+  );
 }
 
 export function registerFont(fontName: FontName, weight: FontWeightKey): string {
@@ -107,25 +186,260 @@ export function registerFont(fontName: FontName, weight: FontWeightKey): string
     return fontKey;
   }
 
-  const fontConfig = FONT_LIBRARY[fontName];
-  const fontFile = fontConfig.weights[weight];
-  const basePath = resolveAliasPath(fontConfig.basePathAlias);
-  const fontPath = join(basePath, fontFile);
+  const fontPath = FONT_LIBRARY.get(fontName)?.weights[weight];
+  if (!fontPath) {
+    throw new Error(`Font ${fontName} does not provide weight ${weight}`);
+  }
 
   const isRegistered = GlobalFonts.registerFromPath(fontPath, fontKey);
   if (!isRegistered) {
     throw new Error(`Failed to register font ${fontName} with weight ${weight}`);
   }
-  registeredFontFamilies.add(fontKey);
+  registeredFontFamilies.set(fontKey, fontPath);
   return fontKey;
 }
 
+export interface FontFamilyDescription {
+  name: FontName;
+  builtIn: boolean;
+  defaultWeight: FontWeightKey;
+  weights: FontWeightKey[];
+  fallbacks: FontFallbacks;
+}
+
+export function listFontFamilies(): FontFamilyDescription[] {
+  return Array.from(FONT_LIBRARY, ([name, entry]) => ({
+    name,
+    builtIn: entry.builtIn,
+    defaultWeight: resolveDefaultWeight(entry),
+    weights: FONT_WEIGHT_KEYS.filter((weight) => entry.weights[weight]),
+    fallbacks: entry.fallbacks ?? {},
+  }));
+}
+
+export function isSystemFontFamily(family: string): boolean {
+  return !registeredFontFamilies.has(family) && GlobalFonts.has(family);
+}
+
+const SYSTEM_FONT_DIRS = [
+  "/usr/share/fonts",
+  "/usr/local/share/fonts",
+  join(homedir(), ".local", "share", "fonts"),
+  join(homedir(), ".fonts"),
+  "/Library/Fonts",
+  "/System/Library/Fonts",
+];
+const SYSTEM_FONT_EXTENSIONS = new Set([".ttf", ".otf"]);
+
+type SystemFontFace = {
+  familyName: string | null;
+  head: { macStyle: { italic: boolean } };
+  "OS/2"?: { usWeightClass?: number };
+  directory: { tables: Record<string, unknown> };
+};
+
+interface SystemFontFile {
+  path: string;
+  weight: number;
+}
+
+let systemFontFiles: Promise<Map<string, SystemFontFile[]>> | null = null;
+
+// The canvas does not expose the files behind system families, so the usual
+// font directories are read once. Only upright, single-face files with glyph
+// outlines are listed: collections and bitmap fonts such as color emoji
+// cannot be embedded in a PDF.
+async function indexSystemFonts(): Promise<Map<string, SystemFontFile[]>> {
+  const index = new Map<string, SystemFontFile[]>();
+  for (const dir of SYSTEM_FONT_DIRS) {
+    const entries = await readdir(dir, { recursive: true }).catch(() => []);
+    for (const entry of entries.sort()) {
+      if (!SYSTEM_FONT_EXTENSIONS.has(extname(entry).toLowerCase())) continue;
+      const path = join(dir, entry);
+      let face: SystemFontFace;
+      try {
+        face = fontkit.create(await readFile(path)) as unknown as SystemFontFace;
+        const { tables } = face.directory;
+        if (
+          !face.familyName ||
+          face.head.macStyle.italic ||
+          !(tables.glyf || tables["CFF "] || tables.CFF2)
+        ) {
+          continue;
+        }
+      } catch {
+        continue;
+      }
+      const files = index.get(face.familyName) ?? [];
+      files.push({ path, weight: face["OS/2"]?.usWeightClass ?? 400 });
+      index.set(face.familyName, files);
+    }
+  }
+  return index;
+}
+
+// Returns the file of an installed family closest to the CSS weight, or
+// undefined when the family has no file that can be embedded.
+export async function findSystemFontPath(
+  family: string,
+  weight: number
+): Promise<string | undefined> {
+  systemFontFiles ??= indexSystemFonts();
+  const files = (await systemFontFiles).get(family) ?? [];
+  let closest: SystemFontFile | undefined;
+  for (const file of files) {
+    if (
+      !closest ||
+      Math.abs(file.weight - weight) < Math.abs(closest.weight - weight)
+    ) {
+      closest = file;
+    }
+  }
+  return closest?.path;
+}
+
+export function setFontFallbacks(fontName: FontName, fallbacks: FontFallbacks) {
+  const entry = FONT_LIBRARY.get(fontName);
+  if (!entry) {
+    throw new Error(`Font ${fontName} is not in the font library`);
+  }
+  entry.fallbacks = fallbacks;
+}
+
+// Maps declared fallbacks to canvas family names. Library families use the
+// requested weight when they have it; unavailable families are skipped.
+function resolveFallbackFamilies(
+  fontName: FontName,
+  weight: FontWeightKey
+): FontFallbacks {
+  const declared = FONT_LIBRARY.get(fontName)?.fallbacks ?? {};
+  const resolved: FontFallbacks = {};
+  for (const script of FONT_FALLBACK_SCRIPTS) {
+    const families: string[] = [];
+    for (const family of declared[script] ?? []) {
+      const entry = FONT_LIBRARY.get(family);
+      if (entry && family !== fontName) {
+        try {
+          families.push(
+            registerFont(
+              family,
+              entry.weights[weight] ? weight : resolveDefaultWeight(entry)
+            )
+          );
+        } catch (error) {
+          console.error(`Failed to register fallback font ${family}:`, error);
+        }
+      } else if (!entry && isSystemFontFamily(family)) {
+        families.push(family);
+      }
+    }
+    if (families.length > 0) {
+      resolved[script] = families;
+    }
+  }
+  return resolved;
+}
+
+function inspectFont(fontFamily: string): InspectedFont | null {
+  const fontPath = registeredFontFamilies.get(fontFamily);
+  if (!fontPath) return null;
+  let font = inspectedFontCache.get(fontPath);
+  if (font === undefined) {
+    try {
+      font = fontkit.create(readFileSync(fontPath)) as unknown as InspectedFont;
+    } catch (error) {
+      console.error(`Failed to inspect font ${fontPath}:`, error);
+      font = null;
+    }
+    inspectedFontCache.set(fontPath, font);
+  }
+  return font;
+}
+
+// System fonts cannot be inspected, so they are trusted to cover the script
+// they were declared for.
+export function fontHasGlyph(fontFamily: string, codePoint: number): boolean {
+  const font = inspectFont(fontFamily);
+  return font ? font.hasGlyphForCodePoint(codePoint) : true;
+}
+
+// Read from the font's `post` and `OS/2` tables. System fonts and fonts that
+// leave a value out use common defaults.
+export function getFontDecorationMetrics(
+  fontFamily: string
+): FontDecorationMetrics {
+  const font = inspectFont(fontFamily);
+  if (!font || !font.unitsPerEm) return DEFAULT_DECORATION_METRICS;
+  const toEm = (value: number | undefined, fallback: number) =>
+    value ? value / font.unitsPerEm : fallback;
+  return {
+    underlinePosition: toEm(
+      font.underlinePosition,
+      DEFAULT_DECORATION_METRICS.underlinePosition
+    ),
+    underlineThickness: toEm(
+      font.underlineThickness,
+      DEFAULT_DECORATION_METRICS.underlineThickness
+    ),
+    strikeoutPosition: toEm(
+      font["OS/2"]?.yStrikeoutPosition,
+      DEFAULT_DECORATION_METRICS.strikeoutPosition
+    ),
+    strikeoutThickness: toEm(
+      font["OS/2"]?.yStrikeoutSize,
+      DEFAULT_DECORATION_METRICS.strikeoutThickness
+    ),
+  };
+}
+
+export function getFontWeightAliases(weight: FontWeightKey): string[] {
+  return Object.keys(FONT_WEIGHT_ALIASES).filter(
+    (alias) => FONT_WEIGHT_ALIASES[alias] === weight
+  );
+}
+
+export function getFontFilePath(
+  fontName: FontName,
+  weight: FontWeightKey
+): string | undefined {
+  return FONT_LIBRARY.get(fontName)?.weights[weight];
+}
+
+// Adds an uploaded font file to the library and registers it with the canvas,
+// so it resolves like the bundled families from then on.
+export function addFontToLibrary(
+  fontName: FontName,
+  weight: FontWeightKey,
+  fontPath: string
+): string {
+  const entry = FONT_LIBRARY.get(fontName) ?? { builtIn: false, weights: {} };
+  if (entry.builtIn || entry.weights[weight]) {
+    throw new Error(`Font ${fontName} already provides weight ${weight}`);
+  }
+  entry.weights[weight] = fontPath;
+  FONT_LIBRARY.set(fontName, entry);
+  try {
+    return registerFont(fontName, weight);
+  } catch (error) {
+    delete entry.weights[weight];
+    if (!FONT_WEIGHT_KEYS.some((key) => entry.weights[key])) {
+      FONT_LIBRARY.delete(fontName);
+    }
+    throw error;
+  }
+}
+
+export function getRegisteredFontPath(fontFamily: string): string | undefined {
+  return registeredFontFamilies.get(fontFamily);
+}
+
 type FontResolutionSuccess = {
   ok: true;
   fontName: FontName;
   fontWeight: FontWeightKey;
   fontFamily: string;
   fontCssWeight: string;
+  fallbackFamilies: FontFallbacks;
 };
 
 type FontResolutionFailure = {
@@ -152,28 +466,32 @@ export function resolveFontRequest(
     if (!isFontName(trimmed)) {
       return {
         ok: false,
-        error: `Unsupported 'fontName'. Available options: ${Object.keys(
-          FONT_LIBRARY
+        error: `Unsupported 'fontName'. Available options: ${Array.from(
+          FONT_LIBRARY.keys()
         ).join(", ")}.`,
       };
     }
     fontName = trimmed;
   }
 
-  let fontWeight: FontWeightKey = FONT_LIBRARY[fontName].defaultWeight;
+  const fontEntry = FONT_LIBRARY.get(fontName);
+  if (!fontEntry) {
+    return { ok: false, error: `Unsupported 'fontName': ${fontName}.` };
+  }
+  let fontWeight: FontWeightKey = resolveDefaultWeight(fontEntry);
 
   if (fontWeightInput !== undefined) {
     const normalizedWeight = normalizeFontWeight(fontWeightInput);
     if (!normalizedWeight) {
       return {
         ok: false,
-        error: `Unsupported 'fontWeight'. Available options: ${Object.keys(
-          FONT_WEIGHT_FILES
-        ).join(", ")}.`,
+        error: `Unsupported 'fontWeight'. Available options: ${FONT_WEIGHT_KEYS.join(
+          ", "
+        )}.`,
       };
     }
 
-    if (!FONT_LIBRARY[fontName].weights[normalizedWeight]) {
+    if (!fontEntry.weights[normalizedWeight]) {
       return {
         ok: false,
         error: `'${fontName}' does not provide the '${normalizedWeight}' weight.`,
@@ -191,6 +509,7 @@ export function resolveFontRequest(
       fontWeight,
       fontFamily,
       fontCssWeight: FONT_WEIGHT_CSS[fontWeight],
+      fallbackFamilies: resolveFallbackFamilies(fontName, fontWeight),
     };
   } catch (error) {
     console.error("Font registration failed:", error);
@@ -202,11 +521,32 @@ export function resolveFontRequest(
   }
 }
 
+export function listFallbackFamilies(fallbacks: FontFallbacks = {}): string[] {
+  return Array.from(
+    new Set(FONT_FALLBACK_SCRIPTS.flatMap((script) => fallbacks[script] ?? []))
+  );
+}
+
+export function buildFontFamilyList(
+  fontFamily: string,
+  fallbacks?: FontFallbacks
+) {
+  return [
+    fontFamily,
+    ...listFallbackFamilies(fallbacks).map((family) => `"${family}"`),
+    FONT_FALLBACK_STACK,
+  ].join(", ");
+}
+
 export function buildFontStack(
   fontCssWeight: string,
   fontSize: number,
-  fontFamily: string
+  fontFamily: string,
+  fallbacks?: FontFallbacks
 ) {
-  return `${fontCssWeight} ${fontSize}px ${fontFamily}, ${FONT_FALLBACK_STACK}`;
+  return `${fontCssWeight} ${fontSize}px ${buildFontFamilyList(
+    fontFamily,
+    fallbacks
+  )}`;
 }
 
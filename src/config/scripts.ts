@@ -0,0 +1,61 @@
+export type FontScript =
+  | "latin"
+  | "arabic"
+  | "persian"
+  | "hebrew"
+  | "cyrillic"
+  | "greek";
+
+export const FONT_SCRIPTS: FontScript[] = [
+  "latin",
+  "arabic",
+  "persian",
+  "hebrew",
+  "cyrillic",
+  "greek",
+];
+
+// A font supports a script when it has glyphs for every probe character.
+// Persian is listed on its own because many Arabic fonts lack پ چ ژ گ ی.
+export const FONT_SCRIPT_PROBES: Record<FontScript, string> = {
+  latin: "AZaz09",
+  arabic: "ابتعيه",
+  persian: "پچژگکی",
+  hebrew: "אבשת",
+  cyrillic: "АЯая",
+  greek: "ΑΩαω",
+};
+
+export const FONT_SCRIPT_SAMPLES: Record<FontScript, string> = {
+  latin: "The quick brown fox jumps over the lazy dog 0123456789",
+  arabic: "نص حكيم له سر قاطع وذو شأن عظيم",
+  persian: "به نام خداوند جان و خرد ۰۱۲۳۴۵۶۷۸۹",
+  hebrew: "דג סקרן שט בים מאוכזב ולפתע מצא חברה",
+  cyrillic: "Съешь же ещё этих мягких французских булок",
+  greek: "Ξεσκεπάζω την ψυχοφθόρα βδελυγμία",
+};
+
+export type FontFallbackScript = "latin" | "arabic" | "hebrew" | "emoji";
+
+export const FONT_FALLBACK_SCRIPTS: FontFallbackScript[] = [
+  "latin",
+  "arabic",
+  "hebrew",
+  "emoji",
+];
+
+const FALLBACK_SCRIPT_PATTERNS: [FontFallbackScript, RegExp][] = [
+  ["emoji", /\p{Extended_Pictographic}/u],
+  ["latin", /\p{Script=Latin}/u],
+  ["arabic", /\p{Script=Arabic}/u],
+  ["hebrew", /\p{Script=Hebrew}/u],
+];
+
+// Returns null for characters shared between scripts (spaces, digits,
+// punctuation, joiners) so they can stay in the surrounding run.
+export function detectCharScript(char: string): FontFallbackScript | null {
+  for (const [script, pattern] of FALLBACK_SCRIPT_PATTERNS) {
+    if (pattern.test(char)) return script;
+  }
+  return null;
+}
@@ -2,7 +2,7 @@ export class UploadError extends Error {
   details: string;
 
   constructor(details: string) {
-    super("Failed to upload file to both Liara and UploadThing");
+    super("Failed to upload file to any configured storage driver");
     this.name = "UploadError";
     this.details = details;
   }
@@ -18,3 +18,55 @@ export class SceneValidationError extends Error {
   }
 }
 
+export interface SceneValidationIssue {
+  path: string;
+  code: string;
+  message: string;
+}
+
+export class SceneSchemaError extends SceneValidationError {
+  issues: SceneValidationIssue[];
+
+  constructor(issues: SceneValidationIssue[]) {
+    super(
+      `Scene failed validation with ${issues.length} issue${
+        issues.length === 1 ? "" : "s"
+      }.`,
+      422
+    );
+    this.name = "SceneSchemaError";
+    this.issues = issues;
+  }
+}
+
+export class ImageValidationError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = "ImageValidationError";
+    this.statusCode = statusCode;
+  }
+}
+
+export class FontValidationError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = "FontValidationError";
+    this.statusCode = statusCode;
+  }
+}
+
+export class JobQueueFullError extends Error {
+  statusCode: number;
+
+  constructor(maxPending: number) {
+    super(
+      `The job queue already holds ${maxPending} pending jobs. Try again later.`
+    );
+    this.name = "JobQueueFullError";
+    this.statusCode = 503;
+  }
+}
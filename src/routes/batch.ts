@@ -0,0 +1,51 @@
+import { Router } from "express";
+import { v4 as uuidv4 } from "uuid";
+import {
+  buildBatchArchive,
+  deliverBatchJob,
+  mapWithConcurrency,
+  parseBatchRequest,
+  runBatchJob,
+} from "../services/batch.js";
+
+export const batchRouter = Router();
+
+batchRouter.post("/batch", async (req, res): Promise<void> => {
+  try {
+    const parsed = parseBatchRequest(req.body ?? {});
+    if (!parsed.ok) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+    const { jobs, output, concurrency } = parsed.request;
+
+    if (output === "zip") {
+      const outcomes = await mapWithConcurrency(jobs, concurrency, runBatchJob);
+      const archive = await buildBatchArchive(jobs, outcomes);
+      res.status(200);
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="batch-${uuidv4()}.zip"`
+      );
+      res.setHeader("Content-Length", String(archive.length));
+      res.end(archive);
+      return;
+    }
+
+    const results = await mapWithConcurrency(
+      jobs,
+      concurrency,
+      deliverBatchJob
+    );
+    res.status(200).json({
+      jobCount: jobs.length,
+      succeeded: results.filter((result) => result.ok === true).length,
+      failed: results.filter((result) => result.ok !== true).length,
+      results,
+    });
+  } catch (error) {
+    console.error("Error running batch:", error);
+    res.status(500).json({ error: "Failed to run batch." });
+  }
+});
@@ -0,0 +1,15 @@
+import express, { Router } from "express";
+import {
+  getLocalStorageDirectory,
+  isStorageDriverEnabled,
+  LOCAL_STORAGE_ROUTE,
+} from "../services/storage/index.js";
+
+export const filesRouter = Router();
+
+if (isStorageDriverEnabled("local")) {
+  filesRouter.use(
+    LOCAL_STORAGE_ROUTE,
+    express.static(getLocalStorageDirectory(), { fallthrough: false })
+  );
+}
@@ -0,0 +1,184 @@
+import express, { Router } from "express";
+import {
+  getFontCssWeight,
+  getFontFilePath,
+  hasFontWeight,
+  isFontName,
+  normalizeFontWeight,
+  resolveFontRequest,
+} from "../config/fonts.js";
+import { FONT_SCRIPT_SAMPLES } from "../config/scripts.js";
+import { FontValidationError } from "../errors.js";
+import {
+  getContentType,
+  resolveImageQuality,
+  resolveOutputFormat,
+} from "../scene/encode.js";
+import { renderFontSpecimen } from "../scene/specimen.js";
+import {
+  describeFontCatalog,
+  detectFontScripts,
+  fontStore,
+  MAX_FONT_FILE_BYTES,
+} from "../services/fonts.js";
+
+export const fontsRouter = Router();
+
+const MAX_PREVIEW_TEXT_LENGTH = 500;
+
+const DEFAULT_PREVIEW_FONT_SIZE = 48;
+
+fontsRouter.get("/fonts", async (_req, res): Promise<void> => {
+  try {
+    res.status(200).json({ fonts: await describeFontCatalog() });
+  } catch (error) {
+    console.error("Error listing fonts:", error);
+    res.status(500).json({ error: "Failed to list fonts." });
+  }
+});
+
+fontsRouter.put(
+  "/fonts/:name/fallbacks",
+  async (req, res): Promise<void> => {
+    try {
+      const { name } = req.params;
+      if (!isFontName(name)) {
+        res.status(404).json({ error: "Font not found." });
+        return;
+      }
+      const fallbacks = await fontStore.setFallbacks(name, req.body);
+      res.status(200).json({ name, fallbacks });
+    } catch (error) {
+      if (error instanceof FontValidationError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error("Error storing font fallbacks:", error);
+      res.status(500).json({ error: "Failed to store font fallbacks." });
+    }
+  }
+);
+
+fontsRouter.get(
+  "/fonts/:name/:weight/preview",
+  async (req, res): Promise<void> => {
+    try {
+      const { name } = req.params;
+      const weight = normalizeFontWeight(req.params.weight);
+      if (!isFontName(name) || !weight || !hasFontWeight(name, weight)) {
+        res.status(404).json({ error: "Font weight not found." });
+        return;
+      }
+
+      const query = req.query;
+      if (
+        query.text !== undefined &&
+        (typeof query.text !== "string" ||
+          !query.text.trim() ||
+          query.text.length > MAX_PREVIEW_TEXT_LENGTH)
+      ) {
+        res.status(400).json({
+          error: `'text' must be a non-empty string of at most ${MAX_PREVIEW_TEXT_LENGTH} characters.`,
+        });
+        return;
+      }
+      const fontSize =
+        query.fontSize === undefined
+          ? DEFAULT_PREVIEW_FONT_SIZE
+          : Number(query.fontSize);
+      if (!Number.isInteger(fontSize) || fontSize < 12 || fontSize > 200) {
+        res
+          .status(400)
+          .json({ error: "'fontSize' must be an integer between 12 and 200." });
+        return;
+      }
+      const formatResolution = resolveOutputFormat(query.outputFormat);
+      if (!formatResolution.ok) {
+        res.status(400).json({ error: formatResolution.error });
+        return;
+      }
+      const format = formatResolution.format;
+      if (format === "svg" || format === "pdf") {
+        res
+          .status(400)
+          .json({ error: `'${format}' is not available for font previews.` });
+        return;
+      }
+      const qualityResolution = resolveImageQuality(query.quality);
+      if (!qualityResolution.ok) {
+        res.status(400).json({ error: qualityResolution.error });
+        return;
+      }
+
+      const fontResolution = resolveFontRequest(name, weight);
+      if (!fontResolution.ok) {
+        res.status(500).json({ error: fontResolution.error });
+        return;
+      }
+
+      let samples: string[];
+      if (typeof query.text === "string") {
+        samples = [query.text];
+      } else {
+        const fontPath = getFontFilePath(name, weight);
+        const scripts = fontPath ? await detectFontScripts(fontPath) : [];
+        samples = (scripts.length > 0 ? scripts : ["latin" as const]).map(
+          (script) => FONT_SCRIPT_SAMPLES[script]
+        );
+      }
+
+      const buffer = await renderFontSpecimen({
+        fontFamily: fontResolution.fontFamily,
+        fontCssWeight: fontResolution.fontCssWeight,
+        caption: `${name} ${weight} (${getFontCssWeight(weight)})`,
+        samples,
+        fontSize,
+        encoding: { format, quality: qualityResolution.quality },
+      });
+      res.setHeader("Content-Type", getContentType(format));
+      res.setHeader("Cache-Control", "public, max-age=3600");
+      res.status(200).send(buffer);
+    } catch (error) {
+      console.error("Error rendering font preview:", error);
+      res.status(500).json({ error: "Failed to render font preview." });
+    }
+  }
+);
+
+// Font files are sent as the raw request body; family and weight travel in
+// the query string so no multipart parsing is needed.
+fontsRouter.post(
+  "/fonts",
+  express.raw({ type: () => true, limit: MAX_FONT_FILE_BYTES }),
+  async (req, res): Promise<void> => {
+    try {
+      if (!Buffer.isBuffer(req.body)) {
+        res.status(400).json({
+          error:
+            "Send the font file as the raw request body (e.g. 'Content-Type: font/ttf').",
+        });
+        return;
+      }
+
+      const font = await fontStore.save({
+        family: req.query.family,
+        weight: req.query.weight,
+        buffer: req.body,
+      });
+      res.status(201).json({
+        family: font.family,
+        weight: font.weight,
+        fontCssWeight: font.fontCssWeight,
+        format: font.format,
+        createdAt: font.createdAt,
+      });
+    } catch (error) {
+      if (error instanceof FontValidationError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error("Error storing font:", error);
+      res.status(500).json({ error: "Failed to store font." });
+    }
+  }
+);
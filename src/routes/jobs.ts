@@ -0,0 +1,82 @@
+import { Router } from "express";
+import { JobQueueFullError } from "../errors.js";
+import { resolveDeliveryMode } from "../services/delivery.js";
+import {
+  jobQueue,
+  resolveCallbackUrl,
+  toPublicJob,
+  type RenderJobInput,
+} from "../services/jobs/index.js";
+import { RENDER_JOB_TYPES } from "../services/render.js";
+
+export const jobsRouter = Router();
+
+jobsRouter.post("/jobs", async (req, res): Promise<void> => {
+  try {
+    const body = req.body ?? {};
+    const typeValue =
+      typeof body.type === "string" ? body.type.trim().toLowerCase() : "";
+    const type = RENDER_JOB_TYPES.find((candidate) => candidate === typeValue);
+    if (!type) {
+      res.status(400).json({
+        error: `'type' must be one of: ${RENDER_JOB_TYPES.join(", ")}.`,
+      });
+      return;
+    }
+
+    const jobBody = body.body ?? {};
+    if (!jobBody || typeof jobBody !== "object" || Array.isArray(jobBody)) {
+      res.status(400).json({ error: "'body' must be an object." });
+      return;
+    }
+
+    const deliveryResolution = resolveDeliveryMode(jobBody.delivery);
+    if (!deliveryResolution.ok) {
+      res.status(400).json({ error: deliveryResolution.error });
+      return;
+    }
+    if (deliveryResolution.mode === "inline") {
+      res.status(400).json({
+        error:
+          "Inline delivery is not available for jobs. Use 'base64' or 'upload'.",
+      });
+      return;
+    }
+
+    const input: RenderJobInput = { type, body: jobBody };
+    if (body.callbackUrl !== undefined) {
+      const callbackResolution = resolveCallbackUrl(body.callbackUrl);
+      if (!callbackResolution.ok) {
+        res.status(400).json({ error: callbackResolution.error });
+        return;
+      }
+      input.callbackUrl = callbackResolution.url;
+    }
+
+    const job = await jobQueue.enqueue(input);
+    res.setHeader("Location", `/jobs/${job.id}`);
+    res.status(202).json(toPublicJob(job));
+  } catch (error) {
+    if (error instanceof JobQueueFullError) {
+      res.setHeader("Retry-After", "30");
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    console.error("Error enqueuing job:", error);
+    res.status(500).json({ error: "Failed to enqueue job." });
+  }
+});
+
+jobsRouter.get("/jobs/:id", async (req, res): Promise<void> => {
+  try {
+    const job = await jobQueue.get(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: "Job not found." });
+      return;
+    }
+    res.status(200).json(toPublicJob(job));
+  } catch (error) {
+    console.error("Error loading job:", error);
+    res.status(500).json({ error: "Failed to load job." });
+  }
+});
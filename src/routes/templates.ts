@@ -0,0 +1,126 @@
+import { Router } from "express";
+import { SceneSchemaError, SceneValidationError } from "../errors.js";
+import { parseMasterNodes, parseScenePages } from "../scene/document.js";
+import {
+  applyTemplateData,
+  assertValidTemplatePages,
+  type TemplateData,
+} from "../scene/template.js";
+import { resolveValidationMode } from "../scene/validate.js";
+import { templateStore, type SceneTemplateInput } from "../services/templates.js";
+import { respondWithSceneRender } from "./scene.js";
+
+export const templatesRouter = Router();
+
+templatesRouter.post("/templates", async (req, res): Promise<void> => {
+  try {
+    const body = req.body ?? {};
+    if (body.name !== undefined && typeof body.name !== "string") {
+      res.status(400).json({ error: "'name' must be a string value." });
+      return;
+    }
+
+    const pages = parseScenePages(body.pages, body.scene);
+    const master = parseMasterNodes(body.master);
+    const validationResolution = resolveValidationMode(body.validation);
+    if (!validationResolution.ok) {
+      res.status(400).json({ error: validationResolution.error });
+      return;
+    }
+    if (validationResolution.mode === "strict") {
+      assertValidTemplatePages(
+        pages.map((node, index) => ({
+          path: body.pages !== undefined ? `pages[${index}]` : "scene",
+          node,
+        })),
+        master.map((node, index) => ({
+          path: Array.isArray(body.master) ? `master[${index}]` : "master",
+          node,
+        }))
+      );
+    }
+
+    const input: SceneTemplateInput = {};
+    if (typeof body.name === "string" && body.name.trim()) {
+      input.name = body.name.trim();
+    }
+    if (body.pages !== undefined) {
+      input.pages = pages;
+    } else if (pages[0]) {
+      input.scene = pages[0];
+    }
+    if (master.length > 0) {
+      input.master = master;
+    }
+
+    const template = await templateStore.create(input);
+    res.status(201).json(template);
+  } catch (error) {
+    if (error instanceof SceneValidationError) {
+      res.status(error.statusCode).json({
+        error: error.message,
+        ...(error instanceof SceneSchemaError ? { issues: error.issues } : {}),
+      });
+      return;
+    }
+    console.error("Error storing template:", error);
+    res.status(500).json({ error: "Failed to store template." });
+  }
+});
+
+templatesRouter.get("/templates/:id", async (req, res): Promise<void> => {
+  try {
+    const template = await templateStore.get(req.params.id);
+    if (!template) {
+      res.status(404).json({ error: "Template not found." });
+      return;
+    }
+    res.status(200).json(template);
+  } catch (error) {
+    console.error("Error loading template:", error);
+    res.status(500).json({ error: "Failed to load template." });
+  }
+});
+
+templatesRouter.post(
+  "/templates/:id/render",
+  async (req, res): Promise<void> => {
+    try {
+      const template = await templateStore.get(req.params.id);
+      if (!template) {
+        res.status(404).json({ error: "Template not found." });
+        return;
+      }
+
+      const body = req.body ?? {};
+      const data: TemplateData = body.data ?? {};
+      if (!data || typeof data !== "object" || Array.isArray(data)) {
+        res.status(400).json({ error: "'data' must be an object." });
+        return;
+      }
+
+      const renderBody: Record<string, unknown> = { ...body };
+      delete renderBody.data;
+      delete renderBody.scene;
+      delete renderBody.pages;
+      delete renderBody.master;
+      if (template.pages) {
+        renderBody.pages = applyTemplateData(template.pages, data);
+      } else if (template.scene) {
+        renderBody.scene = applyTemplateData([template.scene], data)[0];
+      }
+      if (template.master) {
+        renderBody.master = applyTemplateData(template.master, data);
+      }
+
+      await respondWithSceneRender(res, renderBody);
+    } catch (error) {
+      if (error instanceof SceneValidationError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error("Error rendering template:", error);
+      res.status(500).json({ error: "Failed to render template." });
+    }
+  }
+);
@@ -0,0 +1,88 @@
+import { type Image, loadImage } from "@napi-rs/canvas";
+import axios from "axios";
+import { SceneValidationError } from "../errors.js";
+
+export interface ImageAsset {
+  buffer: Buffer;
+  contentType: string;
+  image: Image;
+}
+
+const DATA_URI_PATTERN = /^data:([^;,]+)?(;base64)?,(.*)$/s;
+const IMAGE_FETCH_TIMEOUT_MS = 10000;
+const IMAGE_FETCH_MAX_BYTES = 20 * 1024 * 1024;
+const SVG_PREFIX_PATTERN =
+  /^\uFEFF?\s*(?:<\?xml[^>]*>\s*)?(?:(?:<!--[\s\S]*?-->|<!DOCTYPE[^>]*>)\s*)*<svg[\s>]/i;
+
+// The type comes from the bytes rather than the response headers, so a URL
+// that returns anything other than an image is never embedded in the output.
+function sniffImageType(buffer: Buffer): string | undefined {
+  if (
+    buffer.subarray(0, 8).equals(
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+    )
+  ) {
+    return "image/png";
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return "image/jpeg";
+  }
+  const header = buffer.subarray(0, 12).toString("latin1");
+  if (header.startsWith("GIF87a") || header.startsWith("GIF89a")) {
+    return "image/gif";
+  }
+  if (header.startsWith("RIFF") && header.slice(8) === "WEBP") {
+    return "image/webp";
+  }
+  if (SVG_PREFIX_PATTERN.test(buffer.subarray(0, 4096).toString("utf8"))) {
+    return "image/svg+xml";
+  }
+  return undefined;
+}
+
+async function readImageBytes(
+  imageUrl: string,
+  source: string
+): Promise<Buffer> {
+  const dataUri = DATA_URI_PATTERN.exec(imageUrl);
+  if (dataUri) {
+    const payload = dataUri[3] ?? "";
+    return dataUri[2]
+      ? Buffer.from(payload, "base64")
+      : Buffer.from(decodeURIComponent(payload));
+  }
+
+  try {
+    const response = await axios.get<ArrayBuffer>(imageUrl, {
+      responseType: "arraybuffer",
+      timeout: IMAGE_FETCH_TIMEOUT_MS,
+      maxContentLength: IMAGE_FETCH_MAX_BYTES,
+    });
+    return Buffer.from(response.data);
+  } catch {
+    throw new SceneValidationError(
+      `Image ${source} could not be fetched.`,
+      422
+    );
+  }
+}
+
+export async function fetchImageAsset(imageUrl: string): Promise<ImageAsset> {
+  const source = imageUrl.startsWith("data:") ? "data URI" : `'${imageUrl}'`;
+  const buffer = await readImageBytes(imageUrl, source);
+  const contentType = sniffImageType(buffer);
+  if (!contentType) {
+    throw new SceneValidationError(
+      `Image ${source} is not a PNG, JPEG, WebP, GIF or SVG image.`,
+      422
+    );
+  }
+  try {
+    return { buffer, contentType, image: await loadImage(buffer) };
+  } catch {
+    throw new SceneValidationError(
+      `Image ${source} could not be decoded.`,
+      422
+    );
+  }
+}
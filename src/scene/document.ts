@@ -0,0 +1,124 @@
+import { SceneValidationError } from "../errors.js";
+import { type SceneNodeInput } from "./types.js";
+
+export const MAX_SCENE_PAGES = 100;
+
+const PAGE_VARIABLE_PATTERN = /\{\{\s*(pageNumber|pageCount)\s*\}\}/g;
+
+export interface ScenePageVariables {
+  pageNumber: number;
+  pageCount: number;
+}
+
+function cloneSceneNode<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function replacePageVariables(text: string, variables: ScenePageVariables) {
+  return text.replace(PAGE_VARIABLE_PATTERN, (_match, name) =>
+    String(variables[name as keyof ScenePageVariables])
+  );
+}
+
+function applyPageVariables(
+  node: SceneNodeInput,
+  variables: ScenePageVariables
+) {
+  if (typeof node.text === "string") {
+    node.text = replacePageVariables(node.text, variables);
+  }
+  if (Array.isArray(node.spans)) {
+    for (const span of node.spans) {
+      if (span && typeof span.text === "string") {
+        span.text = replacePageVariables(span.text, variables);
+      }
+    }
+  }
+  if (Array.isArray(node.children)) {
+    node.children.forEach((child) => applyPageVariables(child, variables));
+  }
+}
+
+export function parseScenePages(
+  pagesInput: unknown,
+  sceneInput: unknown
+): SceneNodeInput[] {
+  if (pagesInput === undefined) {
+    if (!sceneInput || typeof sceneInput !== "object") {
+      throw new SceneValidationError(
+        "Missing 'scene' or 'pages' definition in body."
+      );
+    }
+    return [cloneSceneNode(sceneInput as SceneNodeInput)];
+  }
+
+  if (!Array.isArray(pagesInput) || pagesInput.length === 0) {
+    throw new SceneValidationError("'pages' must be a non-empty array.");
+  }
+  if (pagesInput.length > MAX_SCENE_PAGES) {
+    throw new SceneValidationError(
+      `'pages' cannot contain more than ${MAX_SCENE_PAGES} entries.`
+    );
+  }
+  return pagesInput.map((page, index) => {
+    if (!page || typeof page !== "object" || Array.isArray(page)) {
+      throw new SceneValidationError(`'pages[${index}]' must be an object.`);
+    }
+    return cloneSceneNode(page as SceneNodeInput);
+  });
+}
+
+export function parseMasterNodes(input: unknown): SceneNodeInput[] {
+  if (input === undefined) {
+    return [];
+  }
+  const nodes = Array.isArray(input) ? input : [input];
+  return nodes.map((node, index) => {
+    if (!node || typeof node !== "object" || Array.isArray(node)) {
+      throw new SceneValidationError(`'master[${index}]' must be an object.`);
+    }
+    return cloneSceneNode(node as SceneNodeInput);
+  });
+}
+
+// Master nodes are laid out relative to the page edges, so each page is wrapped
+// in a plain frame that stacks the page root under the shared elements.
+export function composeScenePages(
+  pages: SceneNodeInput[],
+  master: SceneNodeInput[]
+): SceneNodeInput[] {
+  return pages.map((page, index) => {
+    const variables = { pageNumber: index + 1, pageCount: pages.length };
+    applyPageVariables(page, variables);
+    if (master.length === 0) {
+      return page;
+    }
+
+    const pageId =
+      typeof page.id === "string" && page.id.trim()
+        ? page.id.trim()
+        : `page-${index + 1}`;
+    const masterNodes = master.map((node, masterIndex) => {
+      const copy = cloneSceneNode(node);
+      applyPageVariables(copy, variables);
+      return {
+        ...copy,
+        id:
+          typeof copy.id === "string" && copy.id.trim()
+            ? `${pageId}-${copy.id.trim()}`
+            : `${pageId}-master-${masterIndex}`,
+        absolute: true,
+      };
+    });
+
+    const composed: SceneNodeInput = {
+      id: `${pageId}-composite`,
+      type: "FRAME",
+      layoutMode: "NONE",
+      children: [{ ...page, id: pageId, x: 0, y: 0 }, ...masterNodes],
+    };
+    if (page.width !== undefined) composed.width = page.width;
+    if (page.height !== undefined) composed.height = page.height;
+    return composed;
+  });
+}
@@ -0,0 +1,133 @@
+import { type Canvas } from "@napi-rs/canvas";
+import { DEFAULT_IMAGE_QUALITY } from "../config/constants.js";
+
+export type ImageFormat = "png" | "jpeg" | "webp" | "avif";
+export type OutputFormat = ImageFormat | "svg" | "pdf";
+
+export interface ImageEncodingOptions {
+  format: ImageFormat;
+  quality?: number;
+}
+
+const OUTPUT_FORMAT_ALIASES: Record<string, OutputFormat> = {
+  image: "png",
+  png: "png",
+  jpeg: "jpeg",
+  jpg: "jpeg",
+  webp: "webp",
+  avif: "avif",
+  svg: "svg",
+  pdf: "pdf",
+};
+
+const CONTENT_TYPES: Record<OutputFormat, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  avif: "image/avif",
+  svg: "image/svg+xml",
+  pdf: "application/pdf",
+};
+
+const FILE_EXTENSIONS: Record<OutputFormat, string> = {
+  png: "png",
+  jpeg: "jpg",
+  webp: "webp",
+  avif: "avif",
+  svg: "svg",
+  pdf: "pdf",
+};
+
+const ALPHA_FORMATS: ReadonlySet<OutputFormat> = new Set([
+  "png",
+  "webp",
+  "avif",
+  "svg",
+  "pdf",
+]);
+
+export const PNG_ENCODING: ImageEncodingOptions = { format: "png" };
+
+type FormatResolutionSuccess = { ok: true; format: OutputFormat };
+
+type FormatResolutionFailure = { ok: false; error: string };
+
+export type FormatResolutionResult =
+  | FormatResolutionSuccess
+  | FormatResolutionFailure;
+
+export function resolveOutputFormat(input: unknown): FormatResolutionResult {
+  if (input === undefined) {
+    return { ok: true, format: "png" };
+  }
+  const value = typeof input === "string" ? input.trim().toLowerCase() : "";
+  const format = OUTPUT_FORMAT_ALIASES[value];
+  if (!format) {
+    return {
+      ok: false,
+      error: `Unsupported 'outputFormat'. Available options: ${Object.keys(
+        OUTPUT_FORMAT_ALIASES
+      ).join(", ")}.`,
+    };
+  }
+  return { ok: true, format };
+}
+
+type QualityResolutionSuccess = { ok: true; quality: number };
+
+type QualityResolutionFailure = { ok: false; error: string };
+
+export type QualityResolutionResult =
+  | QualityResolutionSuccess
+  | QualityResolutionFailure;
+
+export function resolveImageQuality(input: unknown): QualityResolutionResult {
+  if (input === undefined) {
+    return { ok: true, quality: DEFAULT_IMAGE_QUALITY };
+  }
+  const quality = Number(input);
+  if (!Number.isFinite(quality) || quality < 1 || quality > 100) {
+    return {
+      ok: false,
+      error: "'quality' must be a number between 1 and 100.",
+    };
+  }
+  return { ok: true, quality: Math.round(quality) };
+}
+
+export function isTransparentColor(color: unknown): boolean {
+  return typeof color === "string" && color.trim().toLowerCase() === "transparent";
+}
+
+export function supportsTransparency(format: OutputFormat): boolean {
+  return ALPHA_FORMATS.has(format);
+}
+
+export function usesQuality(format: OutputFormat): boolean {
+  return format === "jpeg" || format === "webp" || format === "avif";
+}
+
+export function getContentType(format: OutputFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+export function getFileExtension(format: OutputFormat): string {
+  return FILE_EXTENSIONS[format];
+}
+
+export function encodeCanvas(
+  canvas: Canvas,
+  options: ImageEncodingOptions = PNG_ENCODING
+): Promise<Buffer> {
+  const quality = options.quality ?? DEFAULT_IMAGE_QUALITY;
+  switch (options.format) {
+    case "jpeg":
+      return canvas.encode("jpeg", quality);
+    case "webp":
+      return canvas.encode("webp", quality);
+    case "avif":
+      return canvas.encode("avif", { quality });
+    default:
+      return canvas.encode("png");
+  }
+}
@@ -0,0 +1,394 @@
+import { createCanvas, DOMMatrix, type SKRSContext2D } from "@napi-rs/canvas";
+import { fetchImageAsset } from "./assets.js";
+import { isTransparentColor } from "./encode.js";
+import { isValidColor } from "./validate.js";
+
+export type FillType = "SOLID" | "GRADIENT_LINEAR" | "GRADIENT_RADIAL" | "IMAGE";
+
+export const FILL_TYPES: FillType[] = [
+  "SOLID",
+  "GRADIENT_LINEAR",
+  "GRADIENT_RADIAL",
+  "IMAGE",
+];
+
+export type ImageScaleMode = "FILL" | "FIT" | "TILE";
+
+export const IMAGE_SCALE_MODES: ImageScaleMode[] = ["FILL", "FIT", "TILE"];
+
+// 180 degrees runs from top to bottom, as in CSS.
+export const DEFAULT_GRADIENT_ANGLE = 180;
+
+export interface GradientStop {
+  // 0 to 1 along the gradient line or radius.
+  position: number;
+  color: string;
+}
+
+export interface SolidFill {
+  type: "SOLID";
+  color: string;
+  opacity: number;
+}
+
+export interface LinearGradientFill {
+  type: "GRADIENT_LINEAR";
+  stops: GradientStop[];
+  angle: number;
+  opacity: number;
+}
+
+export interface RadialGradientFill {
+  type: "GRADIENT_RADIAL";
+  stops: GradientStop[];
+  opacity: number;
+}
+
+export type GradientFill = LinearGradientFill | RadialGradientFill;
+
+export interface ImageFill {
+  type: "IMAGE";
+  imageUrl: string;
+  scaleMode: ImageScaleMode;
+  opacity: number;
+}
+
+export type SceneFill = SolidFill | GradientFill | ImageFill;
+
+// The area a fill covers, in absolute coordinates.
+export interface FillBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type FillResolutionSuccess = { ok: true; fill: SceneFill };
+
+type FillResolutionFailure = { ok: false; error: string };
+
+export type FillResolutionResult =
+  | FillResolutionSuccess
+  | FillResolutionFailure;
+
+function resolveGradientStops(
+  input: unknown,
+  field: string
+): { ok: true; stops: GradientStop[] } | FillResolutionFailure {
+  if (!Array.isArray(input) || input.length < 2) {
+    return {
+      ok: false,
+      error: `'${field}.stops' must be an array of at least 2 stops.`,
+    };
+  }
+  const stops: GradientStop[] = [];
+  for (const [index, entry] of input.entries()) {
+    const stop = entry as Record<string, unknown> | null;
+    // Stops without a position are spread evenly, as in CSS.
+    const position = stop?.position ?? index / (input.length - 1);
+    if (
+      !stop ||
+      typeof stop !== "object" ||
+      typeof stop.color !== "string" ||
+      !isValidColor(stop.color) ||
+      typeof position !== "number" ||
+      !Number.isFinite(position) ||
+      position < 0 ||
+      position > 1
+    ) {
+      return {
+        ok: false,
+        error: `'${field}.stops[${index}]' must have a valid 'color' and a 'position' between 0 and 1.`,
+      };
+    }
+    stops.push({ position, color: stop.color });
+  }
+  return {
+    ok: true,
+    stops: stops.sort((a, b) => a.position - b.position),
+  };
+}
+
+// `opacity` defaults to 1, `angle` to 180 and `scaleMode` to FILL.
+export function resolveFill(input: unknown, field: string): FillResolutionResult {
+  const fill = input as Record<string, unknown> | null;
+  if (!fill || typeof fill !== "object" || Array.isArray(fill)) {
+    return { ok: false, error: `'${field}' must be an object.` };
+  }
+  const typeValue =
+    typeof fill.type === "string" ? fill.type.trim().toUpperCase() : "";
+  const type = FILL_TYPES.find((candidate) => candidate === typeValue);
+  if (!type) {
+    return {
+      ok: false,
+      error: `Unsupported '${field}.type'. Available options: ${FILL_TYPES.join(
+        ", "
+      )}.`,
+    };
+  }
+  const opacity = fill.opacity ?? 1;
+  if (
+    typeof opacity !== "number" ||
+    !Number.isFinite(opacity) ||
+    opacity < 0 ||
+    opacity > 1
+  ) {
+    return {
+      ok: false,
+      error: `'${field}.opacity' must be a number between 0 and 1.`,
+    };
+  }
+
+  if (type === "SOLID") {
+    if (typeof fill.color !== "string" || !isValidColor(fill.color)) {
+      return {
+        ok: false,
+        error: `'${field}.color' must be a valid CSS color.`,
+      };
+    }
+    return { ok: true, fill: { type, color: fill.color, opacity } };
+  }
+
+  if (type === "IMAGE") {
+    const scaleValue =
+      typeof fill.scaleMode === "string"
+        ? fill.scaleMode.trim().toUpperCase()
+        : "FILL";
+    const scaleMode = IMAGE_SCALE_MODES.find(
+      (candidate) => candidate === scaleValue
+    );
+    if (typeof fill.imageUrl !== "string" || !fill.imageUrl) {
+      return { ok: false, error: `'${field}.imageUrl' must be a string.` };
+    }
+    if (!scaleMode) {
+      return {
+        ok: false,
+        error: `Unsupported '${field}.scaleMode'. Available options: ${IMAGE_SCALE_MODES.join(
+          ", "
+        )}.`,
+      };
+    }
+    return {
+      ok: true,
+      fill: { type, imageUrl: fill.imageUrl, scaleMode, opacity },
+    };
+  }
+
+  const stopsResolution = resolveGradientStops(fill.stops, field);
+  if (!stopsResolution.ok) {
+    return stopsResolution;
+  }
+  const { stops } = stopsResolution;
+  if (type === "GRADIENT_RADIAL") {
+    return { ok: true, fill: { type, stops, opacity } };
+  }
+  const angle = fill.angle ?? DEFAULT_GRADIENT_ANGLE;
+  if (typeof angle !== "number" || !Number.isFinite(angle)) {
+    return { ok: false, error: `'${field}.angle' must be a number.` };
+  }
+  return { ok: true, fill: { type, stops, angle, opacity } };
+}
+
+type FillsResolutionSuccess = { ok: true; fills: SceneFill[] };
+
+type FillsResolutionFailure = { ok: false; error: string };
+
+export type FillsResolutionResult =
+  | FillsResolutionSuccess
+  | FillsResolutionFailure;
+
+export function resolveFills(input: unknown): FillsResolutionResult {
+  if (input === undefined) {
+    return { ok: true, fills: [] };
+  }
+  if (!Array.isArray(input)) {
+    return { ok: false, error: "'fills' must be an array." };
+  }
+  const fills: SceneFill[] = [];
+  for (const [index, entry] of input.entries()) {
+    const resolution = resolveFill(entry, `fills[${index}]`);
+    if (!resolution.ok) {
+      return resolution;
+    }
+    fills.push(resolution.fill);
+  }
+  return { ok: true, fills };
+}
+
+// A solid color string, or a gradient for `/image`.
+export type ImageBackground = string | GradientFill;
+
+type ImageBackgroundResolutionSuccess = {
+  ok: true;
+  background: ImageBackground;
+};
+
+type ImageBackgroundResolutionFailure = { ok: false; error: string };
+
+export type ImageBackgroundResolutionResult =
+  | ImageBackgroundResolutionSuccess
+  | ImageBackgroundResolutionFailure;
+
+export function resolveImageBackground(
+  input: unknown
+): ImageBackgroundResolutionResult {
+  if (typeof input === "string") {
+    return { ok: true, background: input };
+  }
+  const resolution = resolveFill(input, "bgColor");
+  if (!resolution.ok) {
+    return resolution;
+  }
+  const { fill } = resolution;
+  if (fill.type !== "GRADIENT_LINEAR" && fill.type !== "GRADIENT_RADIAL") {
+    return {
+      ok: false,
+      error:
+        "'bgColor' must be a color string or a GRADIENT_LINEAR or GRADIENT_RADIAL fill.",
+    };
+  }
+  return { ok: true, background: fill };
+}
+
+// A gradient counts as transparent when any of its stops is.
+export function isTransparentBackground(background: ImageBackground): boolean {
+  return typeof background === "string"
+    ? isTransparentColor(background)
+    : background.stops.some((stop) => isTransparentColor(stop.color));
+}
+
+// The CSS gradient line: through the center of the box at `angle`, long
+// enough that the corners get the first and last colors.
+export function getLinearGradientLine(box: FillBox, angle: number) {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const half =
+    (Math.abs(box.width * dx) + Math.abs(box.height * dy)) / 2;
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
+  return {
+    x0: centerX - dx * half,
+    y0: centerY - dy * half,
+    x1: centerX + dx * half,
+    y1: centerY + dy * half,
+  };
+}
+
+// A circle around the center of the box that reaches its corners.
+export function getRadialGradientCircle(box: FillBox) {
+  return {
+    cx: box.x + box.width / 2,
+    cy: box.y + box.height / 2,
+    r: Math.hypot(box.width, box.height) / 2,
+  };
+}
+
+// Where a FILL or FIT image is drawn: scaled to cover or to fit inside the
+// box, keeping its aspect ratio, and centered.
+export function getImageFillRect(
+  box: FillBox,
+  imageWidth: number,
+  imageHeight: number,
+  scaleMode: ImageScaleMode
+): FillBox {
+  const scaleX = box.width / imageWidth;
+  const scaleY = box.height / imageHeight;
+  const scale =
+    scaleMode === "FIT" ? Math.min(scaleX, scaleY) : Math.max(scaleX, scaleY);
+  const width = imageWidth * scale;
+  const height = imageHeight * scale;
+  return {
+    x: box.x + (box.width - width) / 2,
+    y: box.y + (box.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+function createCanvasGradient(
+  ctx: SKRSContext2D,
+  fill: GradientFill,
+  box: FillBox
+) {
+  let gradient;
+  if (fill.type === "GRADIENT_LINEAR") {
+    const { x0, y0, x1, y1 } = getLinearGradientLine(box, fill.angle);
+    gradient = ctx.createLinearGradient(x0, y0, x1, y1);
+  } else {
+    const { cx, cy, r } = getRadialGradientCircle(box);
+    gradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, r);
+  }
+  for (const stop of fill.stops) {
+    gradient.addColorStop(stop.position, stop.color);
+  }
+  return gradient;
+}
+
+// Paints one fill over the whole box; callers clip it to the node's shape.
+export async function paintFill(
+  ctx: SKRSContext2D,
+  fill: SceneFill,
+  box: FillBox
+) {
+  ctx.save();
+  ctx.globalAlpha *= fill.opacity;
+  if (fill.type === "IMAGE") {
+    const { image } = await fetchImageAsset(fill.imageUrl);
+    if (fill.scaleMode === "TILE") {
+      const pattern = ctx.createPattern(image, "repeat");
+      pattern.setTransform(new DOMMatrix().translate(box.x, box.y));
+      ctx.fillStyle = pattern;
+      ctx.fillRect(box.x, box.y, box.width, box.height);
+    } else if (image.width > 0 && image.height > 0) {
+      const rect = getImageFillRect(
+        box,
+        image.width,
+        image.height,
+        fill.scaleMode
+      );
+      ctx.beginPath();
+      ctx.rect(box.x, box.y, box.width, box.height);
+      ctx.clip();
+      ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height);
+    }
+  } else {
+    ctx.fillStyle =
+      fill.type === "SOLID" ? fill.color : createCanvasGradient(ctx, fill, box);
+    ctx.fillRect(box.x, box.y, box.width, box.height);
+  }
+  ctx.restore();
+}
+
+// Fills are painted in order, so the last one ends up on top.
+export async function paintFills(
+  ctx: SKRSContext2D,
+  fills: SceneFill[],
+  box: FillBox
+) {
+  for (const fill of fills) {
+    await paintFill(ctx, fill, box);
+  }
+}
+
+// Composes the fills of a TEXT node into one pattern and makes it the fill
+// style, so glyphs drawn afterwards show the fills through their shapes.
+export async function applyFillsAsFillStyle(
+  ctx: SKRSContext2D,
+  fills: SceneFill[],
+  box: FillBox
+) {
+  const layer = createCanvas(
+    Math.max(1, Math.ceil(box.width)),
+    Math.max(1, Math.ceil(box.height))
+  );
+  await paintFills(layer.getContext("2d"), fills, {
+    x: 0,
+    y: 0,
+    width: box.width,
+    height: box.height,
+  });
+  const pattern = ctx.createPattern(layer, "no-repeat");
+  pattern.setTransform(new DOMMatrix().translate(box.x, box.y));
+  ctx.fillStyle = pattern;
+}
@@ -2,30 +2,58 @@ import { createCanvas, type SKRSContext2D } from "@napi-rs/canvas";
 import {
   DEFAULT_FONT_SIZE,
   DEFAULT_LETTER_SPACING,
+  DEFAULT_MIN_FONT_SIZE,
   DEFAULT_TEXT_COLOR,
 } from "../config/constants.js";
 import { buildFontStack, resolveFontRequest } from "../config/fonts.js";
 import { SceneValidationError } from "../errors.js";
+import { resolveFills } from "./fills.js";
 import {
   type CounterAxisAlign,
   type DimensionSpec,
   type LayoutConstraints,
   type LayoutMode,
+  type LeadingTrim,
   type LayoutNodeResult,
   type NormalizedSceneNode,
   type Padding,
   type PrimaryAxisAlign,
   type SceneNodeInput,
   type SerializableLayoutNode,
+  type TextAlignVertical,
+  type TextLayoutMetadata,
+  type TextLineLayout,
+  type TextOverflow,
+  type TextStyleLayout,
 } from "./types.js";
 import {
   detectTextDirection,
+  ellipsizeTextRuns,
+  getTextEffectsBleed,
   getTextWidthWithLetterSpacing,
-  wrapTextLTR,
-  wrapTextRTL,
+  justifyTextRuns,
+  measureTextAscent,
+  measureTextBounds,
+  normalizeTextContent,
+  resolveTextDecoration,
+  resolveTextDigits,
+  resolveTextLineBackground,
+  resolveTextShadows,
+  resolveTextStroke,
+  sliceTextRuns,
+  TEXT_ALIGNS,
+  WORD_BREAKS,
+  wrapTextRuns,
+  type TextFont,
+  type TextLineBox,
+  type TextRun,
 } from "./text.js";
+import { isValidLink } from "./validate.js";
 
 const DEFAULT_RECT_SIZE = 100;
+const TEXT_OVERFLOWS: TextOverflow[] = ["VISIBLE", "CLIP", "ELLIPSIS", "SHRINK"];
+const TEXT_ALIGN_VERTICALS: TextAlignVertical[] = ["TOP", "CENTER", "BOTTOM"];
+const LEADING_TRIMS: LeadingTrim[] = ["NONE", "CAP_HEIGHT", "GLYPHS"];
 const AUTO_DIMENSION: DimensionSpec = { mode: "AUTO" };
 let autoNodeCounter = 0;
 
@@ -165,19 +193,14 @@ function normalizeSceneNode(
       ? "RTL"
       : input.textDirection === "LTR"
       ? "LTR"
-      : detectTextDirection(
-          typeof input.text === "string" ? input.text : undefined
-        );
+      : detectTextDirection(getNodeText(input));
   const alignValue =
     typeof input.textAlign === "string"
       ? input.textAlign.toUpperCase()
       : undefined;
   const textAlign =
-    alignValue === "LEFT" || alignValue === "CENTER" || alignValue === "RIGHT"
-      ? alignValue
-      : textDirection === "RTL"
-      ? "RIGHT"
-      : "LEFT";
+    TEXT_ALIGNS.find((candidate) => candidate === alignValue) ??
+    (textDirection === "RTL" ? "RIGHT" : "LEFT");
   const fontSize =
     typeof input.fontSize === "number" && input.fontSize > 0
       ? input.fontSize
@@ -188,8 +211,44 @@ function normalizeSceneNode(
       ? parsedLetterSpacing
       : DEFAULT_LETTER_SPACING;
   const wrap = input.wrap !== false;
+  const overflowValue =
+    typeof input.textOverflow === "string"
+      ? input.textOverflow.trim().toUpperCase()
+      : undefined;
+  const textOverflow =
+    TEXT_OVERFLOWS.find((candidate) => candidate === overflowValue) ??
+    "VISIBLE";
+  const alignVerticalValue =
+    typeof input.textAlignVertical === "string"
+      ? input.textAlignVertical.trim().toUpperCase()
+      : undefined;
+  const textAlignVertical =
+    TEXT_ALIGN_VERTICALS.find(
+      (candidate) => candidate === alignVerticalValue
+    ) ?? "TOP";
+  const leadingTrimValue =
+    typeof input.leadingTrim === "string"
+      ? input.leadingTrim.trim().toUpperCase()
+      : undefined;
+  const leadingTrim =
+    LEADING_TRIMS.find((candidate) => candidate === leadingTrimValue) ??
+    "NONE";
+  const wordBreakValue =
+    typeof input.wordBreak === "string"
+      ? input.wordBreak.trim().toUpperCase()
+      : undefined;
+  const wordBreak =
+    WORD_BREAKS.find((candidate) => candidate === wordBreakValue) ?? "NORMAL";
+  const decorationResolution = resolveTextDecoration(input.textDecoration);
+  const textDecoration = decorationResolution.ok
+    ? decorationResolution.decoration
+    : "NONE";
+  const digitsResolution = resolveTextDigits(input.digits);
+  const digits = digitsResolution.ok ? digitsResolution.digits : undefined;
   const imageUrl =
     typeof input.imageUrl === "string" ? input.imageUrl : undefined;
+  const fillsResolution = resolveFills(input.fills);
+  const fills = fillsResolution.ok ? fillsResolution.fills : [];
 
   return {
     ...input,
@@ -212,9 +271,16 @@ function normalizeSceneNode(
     clipsContent,
     opacity,
     textAlign,
+    textAlignVertical,
+    leadingTrim,
     textDirection,
     wrap,
     letterSpacing,
+    textOverflow,
+    wordBreak,
+    textDecoration,
+    fills,
+    ...(digits ? { digits } : {}),
     ...(imageUrl ? { imageUrl } : {}),
   };
 }
@@ -319,95 +385,539 @@ function layoutLeafNode(
   };
 }
 
-function layoutTextNode(
-  node: NormalizedSceneNode,
-  ctx: SKRSContext2D,
-  constraints: LayoutConstraints
-): LayoutNodeResult {
-  const fontResolution = resolveFontRequest(node.fontName, node.fontWeight);
+type StyledTextRun = TextRun & { style: number };
+
+// `spans` replace `text` when present.
+function getNodeText(node: SceneNodeInput): string | undefined {
+  if (Array.isArray(node.spans)) {
+    return node.spans
+      .map((span) => (typeof span?.text === "string" ? span.text : ""))
+      .join("");
+  }
+  return typeof node.text === "string" ? node.text : undefined;
+}
+
+function resolveTextStyle(
+  fontName: unknown,
+  fontWeight: unknown,
+  fontSize: number,
+  color: string,
+  link?: string
+): TextStyleLayout {
+  const fontResolution = resolveFontRequest(fontName, fontWeight);
   if (!fontResolution.ok) {
     throw new SceneValidationError(fontResolution.error);
   }
+  return {
+    font: buildFontStack(
+      fontResolution.fontCssWeight,
+      fontSize,
+      fontResolution.fontFamily,
+      fontResolution.fallbackFamilies
+    ),
+    fontFamily: fontResolution.fontFamily,
+    fontCssWeight: fontResolution.fontCssWeight,
+    fallbackFamilies: fontResolution.fallbackFamilies,
+    fontSize,
+    color,
+    ...(link ? { link } : {}),
+  };
+}
 
-  const fontSize =
+export function toTextFont(style: TextStyleLayout): TextFont {
+  return {
+    fontFamily: style.fontFamily,
+    fontCssWeight: style.fontCssWeight,
+    fontSize: style.fontSize,
+    fallbackFamilies: style.fallbackFamilies,
+  };
+}
+
+export function toLineTextRuns(
+  textLayout: TextLayoutMetadata,
+  line: TextLineLayout
+): TextRun[] {
+  return line.runs.map(({ text, style }) => {
+    const styleLayout = textLayout.styles[style] ?? textLayout;
+    return {
+      text,
+      font: toTextFont(styleLayout),
+      color: styleLayout.color,
+    };
+  });
+}
+
+// Where each line of a TEXT node is drawn, in absolute coordinates.
+export function getTextLineBoxes(
+  layout: LayoutNodeResult,
+  textLayout: TextLayoutMetadata
+): TextLineBox[] {
+  const left = layout.absX + textLayout.inset.left;
+  const width = layout.width - textLayout.inset.left - textLayout.inset.right;
+  let top = layout.absY + textLayout.offsetY;
+  return textLayout.lines.map((line) => {
+    let lineLeft = left;
+    if (textLayout.textAlign === "center") {
+      lineLeft = left + (width - line.width) / 2;
+    } else if (textLayout.textAlign === "right") {
+      lineLeft = left + width - line.width;
+    }
+    const box = {
+      left: lineLeft,
+      right: lineLeft + line.width,
+      top,
+      bottom: top + line.height,
+    };
+    top += line.height;
+    return box;
+  });
+}
+
+// Spans inherit the node's font, size, color and text normalization for
+// anything they leave out. `scale` shrinks explicit span sizes along with the
+// node's own.
+function resolveTextRuns(
+  node: NormalizedSceneNode,
+  baseStyle: TextStyleLayout,
+  scale: number
+): { styles: TextStyleLayout[]; runs: StyledTextRun[] } {
+  const styles = [baseStyle];
+  if (!Array.isArray(node.spans)) {
+    const text =
+      typeof node.text === "string"
+        ? normalizeTextContent(node.text, node)
+        : "";
+    return {
+      styles,
+      runs: [{ text, style: 0, font: toTextFont(baseStyle) }],
+    };
+  }
+
+  const runs: StyledTextRun[] = [];
+  for (const span of node.spans) {
+    if (!span || typeof span.text !== "string" || !span.text) continue;
+    const style = resolveTextStyle(
+      span.fontName ?? node.fontName,
+      span.fontWeight ?? node.fontWeight,
+      typeof span.fontSize === "number" && span.fontSize > 0
+        ? span.fontSize * scale
+        : baseStyle.fontSize,
+      typeof span.color === "string" ? span.color : baseStyle.color,
+      typeof span.link === "string" && isValidLink(span.link)
+        ? span.link
+        : undefined
+    );
+    styles.push(style);
+    runs.push({
+      text: normalizeTextContent(span.text, node),
+      style: styles.length - 1,
+      font: toTextFont(style),
+    });
+  }
+  return { styles, runs };
+}
+
+interface TextLines {
+  fontSize: number;
+  baseStyle: TextStyleLayout;
+  styles: TextStyleLayout[];
+  lineRuns: StyledTextRun[][];
+  paragraphEnds: Set<number>;
+  lines: TextLineLayout[];
+  // Parallel to `lines`.
+  trims: LineTrim[];
+  textWidth: number;
+}
+
+// Leading removed above and below a line box by `leadingTrim`. Negative when
+// the ink reaches past the box.
+interface LineTrim {
+  top: number;
+  bottom: number;
+}
+
+function measureLineTrim(
+  node: NormalizedSceneNode,
+  ctx: SKRSContext2D,
+  styles: TextStyleLayout[],
+  line: TextLineLayout
+): LineTrim {
+  if (node.leadingTrim === "NONE") {
+    return { top: 0, bottom: 0 };
+  }
+
+  // CAP_HEIGHT keeps the cap height of the line's largest font down to the
+  // baseline; GLYPHS keeps the ink of the line's own text. A blank line has
+  // no ink and falls back to CAP_HEIGHT.
+  const inkRuns = line.runs.filter((run) => run.text.trim());
+  let ascent = 0;
+  let descent = 0;
+  if (node.leadingTrim === "GLYPHS" && inkRuns.length > 0) {
+    for (const run of inkRuns) {
+      const bounds = measureTextBounds(
+        ctx,
+        styles[run.style]?.font ?? ctx.font,
+        run.text
+      );
+      ascent = Math.max(ascent, bounds.ascent);
+      descent = Math.max(descent, bounds.descent);
+    }
+  } else {
+    const lineStyles =
+      line.runs.length > 0 ? line.runs.map((run) => run.style) : [0];
+    for (const style of lineStyles) {
+      const bounds = measureTextBounds(
+        ctx,
+        styles[style]?.font ?? ctx.font,
+        "H"
+      );
+      ascent = Math.max(ascent, bounds.ascent);
+    }
+  }
+  return {
+    top: line.ascent - ascent,
+    bottom: line.height - line.ascent - descent,
+  };
+}
+
+// Wraps the node's text at `fontSize`. Line height and span sizes scale with
+// it so a shrunk node keeps its proportions.
+function buildTextLines(
+  node: NormalizedSceneNode,
+  ctx: SKRSContext2D,
+  fontSize: number,
+  maxWidth: number | undefined
+): TextLines {
+  const nodeFontSize =
     typeof node.fontSize === "number" && node.fontSize > 0
       ? node.fontSize
       : DEFAULT_FONT_SIZE;
+  const scale = fontSize / nodeFontSize;
   const lineHeight =
     typeof node.lineHeight === "number" && node.lineHeight > 0
-      ? node.lineHeight
+      ? node.lineHeight * scale
       : fontSize * 1.4;
 
   const letterSpacing = node.letterSpacing ?? 0;
-  const text = typeof node.text === "string" ? node.text : "";
-  const lines: string[] = [];
-
-  const font = buildFontStack(
-    fontResolution.fontCssWeight,
+  const baseStyle = resolveTextStyle(
+    node.fontName,
+    node.fontWeight,
     fontSize,
-    fontResolution.fontFamily
+    node.textColor ?? DEFAULT_TEXT_COLOR
   );
-  ctx.font = font;
-  ctx.textAlign = node.textDirection === "RTL" ? "right" : "left";
-  (ctx as any).direction =
-    node.textDirection === "RTL" ? "rtl" : "ltr";
-
-  const maxWidth =
-    resolveDimensionValue(
-      node.widthSpec,
-      constraints.availableWidth,
-      constraints.allowFill ?? true
-    ) ??
-    undefined;
-
-  const paragraphs = text.split("\n");
-  for (const paragraph of paragraphs) {
+  const { styles, runs } = resolveTextRuns(node, baseStyle, scale);
+  const text = runs.map((run) => run.text).join("");
+  const lineRuns: StyledTextRun[][] = [];
+
+  ctx.font = baseStyle.font;
+
+  // Indexes of the lines that end a paragraph.
+  const paragraphEnds = new Set<number>();
+  let paragraphStart = 0;
+  for (const paragraph of text.split("\n")) {
+    const paragraphRuns = sliceTextRuns(
+      runs,
+      paragraphStart,
+      paragraphStart + paragraph.length
+    );
+    paragraphStart += paragraph.length + 1;
     if (!node.wrap || !maxWidth || maxWidth <= 0) {
-      lines.push(paragraph);
-      continue;
+      lineRuns.push(paragraphRuns);
+    } else {
+      lineRuns.push(
+        ...wrapTextRuns(
+          ctx,
+          paragraphRuns,
+          maxWidth,
+          letterSpacing,
+          node.textDirection,
+          node.wordBreak
+        )
+      );
     }
-    const wrapped =
-      node.textDirection === "RTL"
-        ? wrapTextRTL(ctx, paragraph, maxWidth, letterSpacing)
-        : wrapTextLTR(ctx, paragraph, maxWidth, letterSpacing);
-    lines.push(...wrapped);
+    paragraphEnds.add(lineRuns.length - 1);
   }
 
-  if (lines.length === 0) {
-    lines.push("");
+  if (lineRuns.length === 0) {
+    lineRuns.push([]);
   }
 
-  const textWidth = lines.reduce((max, line) => {
-    const width = getTextWidthWithLetterSpacing(
-      ctx,
-      line,
-      letterSpacing,
-      node.textDirection
-    );
-    return Math.max(max, width);
-  }, 0);
+  const lineWidths = lineRuns.map((line) =>
+    getTextWidthWithLetterSpacing(ctx, line, letterSpacing, node.textDirection)
+  );
+  const textWidth = Math.max(0, ...lineWidths);
+
+  // A line is as tall as its largest run, keeping the node's ratio of line
+  // height to font size.
+  const styleLineHeights = styles.map((style) =>
+    style.fontSize === fontSize
+      ? lineHeight
+      : (lineHeight / fontSize) * style.fontSize
+  );
+  const styleAscents = styles.map((style) =>
+    measureTextAscent(ctx, style.font)
+  );
+  const lines: TextLineLayout[] = lineRuns.map((line, index) => {
+    const lineStyles = line.length > 0 ? line.map((run) => run.style) : [0];
+    return {
+      text: line.map((run) => run.text).join(""),
+      runs: line.map(({ text, style }) => ({ text, style })),
+      height: Math.max(
+        ...lineStyles.map((style) => styleLineHeights[style] ?? lineHeight)
+      ),
+      ascent: Math.max(...lineStyles.map((style) => styleAscents[style] ?? 0)),
+      wordSpacing: 0,
+      width: lineWidths[index] ?? 0,
+    };
+  });
+
+  return {
+    fontSize,
+    baseStyle,
+    styles,
+    lineRuns,
+    paragraphEnds,
+    lines,
+    trims: lines.map((line) => measureLineTrim(node, ctx, styles, line)),
+    textWidth,
+  };
+}
+
+// Height of the line boxes without the first line's top trim and the last
+// line's bottom trim.
+function getTextBlockHeight(lines: TextLineLayout[], trims: LineTrim[]) {
+  if (lines.length === 0) return 0;
+  const height = lines.reduce((total, line) => total + line.height, 0);
+  return (
+    height - (trims[0]?.top ?? 0) - (trims[lines.length - 1]?.bottom ?? 0)
+  );
+}
 
-  if (node.maxLines && lines.length > node.maxLines) {
-    lines.length = node.maxLines;
+function fitsTextBox(
+  textLines: TextLines,
+  maxLines: number | undefined,
+  maxWidth: number | undefined,
+  maxHeight: number | undefined
+) {
+  return (
+    (!maxLines || textLines.lines.length <= maxLines) &&
+    (maxWidth === undefined || textLines.textWidth <= maxWidth) &&
+    (maxHeight === undefined ||
+      getTextBlockHeight(textLines.lines, textLines.trims) <= maxHeight)
+  );
+}
+
+// Largest whole font size between `minFontSize` and the node's size whose
+// lines fit the box, falling back to the minimum when none does.
+function shrinkTextLines(
+  node: NormalizedSceneNode,
+  ctx: SKRSContext2D,
+  textLines: TextLines,
+  maxWidth: number | undefined,
+  maxHeight: number | undefined
+): TextLines {
+  if (fitsTextBox(textLines, node.maxLines, maxWidth, maxHeight)) {
+    return textLines;
   }
 
-  let width =
+  const minFontSize = Math.min(
+    typeof node.minFontSize === "number" && node.minFontSize > 0
+      ? node.minFontSize
+      : DEFAULT_MIN_FONT_SIZE,
+    textLines.fontSize
+  );
+  let best = buildTextLines(node, ctx, minFontSize, maxWidth);
+  let low = Math.ceil(minFontSize);
+  let high = Math.ceil(textLines.fontSize) - 1;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const candidate = buildTextLines(node, ctx, mid, maxWidth);
+    if (fitsTextBox(candidate, node.maxLines, maxWidth, maxHeight)) {
+      best = candidate;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return best;
+}
+
+function layoutTextNode(
+  node: NormalizedSceneNode,
+  ctx: SKRSContext2D,
+  constraints: LayoutConstraints
+): LayoutNodeResult {
+  const fontSize =
+    typeof node.fontSize === "number" && node.fontSize > 0
+      ? node.fontSize
+      : DEFAULT_FONT_SIZE;
+  const letterSpacing = node.letterSpacing ?? 0;
+
+  ctx.textAlign = node.textDirection === "RTL" ? "right" : "left";
+  (ctx as any).direction =
+    node.textDirection === "RTL" ? "rtl" : "ltr";
+
+  const boxWidth =
     resolveDimensionValue(
       node.widthSpec,
       constraints.availableWidth,
       constraints.allowFill ?? true
     ) ??
-    textWidth;
-  let height =
+    undefined;
+  const boxHeight =
     resolveDimensionValue(
       node.heightSpec,
       constraints.availableHeight,
       constraints.allowFill ?? true
     ) ??
-    lineHeight * lines.length;
+    undefined;
 
-  width = Math.max(0, width);
-  height = Math.max(0, height);
+  // Stroke, shadows and line background stay inside the node's box, so the
+  // lines get what is left after their bleed.
+  const strokeResolution = resolveTextStroke(node.textStroke);
+  const stroke = strokeResolution.ok ? strokeResolution.stroke : undefined;
+  const shadowsResolution = resolveTextShadows(node.textShadow);
+  const shadows = shadowsResolution.ok ? shadowsResolution.shadows : [];
+  const backgroundResolution = resolveTextLineBackground(node.lineBackground);
+  const lineBackground = backgroundResolution.ok
+    ? backgroundResolution.lineBackground
+    : undefined;
+  const bleed = getTextEffectsBleed({ stroke, shadows }, lineBackground);
+  const maxWidth =
+    boxWidth === undefined
+      ? undefined
+      : Math.max(0, boxWidth - bleed.left - bleed.right);
+  const maxHeight =
+    boxHeight === undefined
+      ? undefined
+      : Math.max(0, boxHeight - bleed.top - bleed.bottom);
+
+  let textLines = buildTextLines(node, ctx, fontSize, maxWidth);
+  if (node.textOverflow === "SHRINK") {
+    textLines = shrinkTextLines(node, ctx, textLines, maxWidth, maxHeight);
+  }
+  const { baseStyle, styles, lineRuns, textWidth } = textLines;
+  let lines = textLines.lines;
+  ctx.font = baseStyle.font;
+
+  let visibleLines = lines.length;
+  if (node.maxLines && visibleLines > node.maxLines) {
+    visibleLines = node.maxLines;
+  }
+  // CLIP keeps partially visible lines; the other modes drop every line that
+  // does not fit the fixed height, always keeping the first.
+  if (
+    maxHeight !== undefined &&
+    (node.textOverflow === "ELLIPSIS" || node.textOverflow === "SHRINK")
+  ) {
+    let total = -(textLines.trims[0]?.top ?? 0);
+    let fitting = 0;
+    for (const [index, line] of lines.slice(0, visibleLines).entries()) {
+      total += line.height;
+      if (total - (textLines.trims[index]?.bottom ?? 0) > maxHeight) break;
+      fitting++;
+    }
+    visibleLines = Math.max(1, fitting);
+  }
+  const truncated = visibleLines < lines.length;
+  lines = lines.slice(0, visibleLines);
+  const trims = textLines.trims.slice(0, visibleLines);
+
+  const ellipsized = new Set<number>();
+  if (node.textOverflow === "ELLIPSIS") {
+    const ellipsisWidth = maxWidth ?? textWidth;
+    lines = lines.map((line, index) => {
+      const runs = lineRuns[index] ?? [];
+      const isLast = index === lines.length - 1;
+      if (
+        !(isLast && truncated) &&
+        getTextWidthWithLetterSpacing(
+          ctx,
+          runs,
+          letterSpacing,
+          node.textDirection
+        ) <= ellipsisWidth
+      ) {
+        return line;
+      }
+      ellipsized.add(index);
+      const shortened = ellipsizeTextRuns(
+        ctx,
+        runs.length > 0
+          ? runs
+          : [{ text: "", style: 0, font: toTextFont(baseStyle) }],
+        ellipsisWidth,
+        letterSpacing,
+        node.textDirection
+      );
+      return {
+        ...line,
+        text: shortened.map((run) => run.text).join(""),
+        runs: shortened.map(({ text, style }) => ({ text, style })),
+        width: getTextWidthWithLetterSpacing(
+          ctx,
+          shortened,
+          letterSpacing,
+          node.textDirection
+        ),
+      };
+    });
+  }
+
+  const lineWidth = maxWidth ?? textWidth;
+
+  // Justified lines fill the width; paragraph ends (unless JUSTIFY_ALL) and
+  // ellipsized lines stay at the start edge.
+  if (node.textAlign === "JUSTIFY" || node.textAlign === "JUSTIFY_ALL") {
+    lines = lines.map((line, index) => {
+      if (
+        ellipsized.has(index) ||
+        (node.textAlign === "JUSTIFY" && textLines.paragraphEnds.has(index))
+      ) {
+        return line;
+      }
+      const justified = justifyTextRuns(
+        ctx,
+        lineRuns[index] ?? [],
+        lineWidth,
+        letterSpacing,
+        node.textDirection
+      );
+      return {
+        ...line,
+        text: justified.runs.map((run) => run.text).join(""),
+        runs: justified.runs.map(({ text, style }) => ({ text, style })),
+        wordSpacing: justified.wordSpacing,
+        width: getTextWidthWithLetterSpacing(
+          ctx,
+          justified.runs,
+          letterSpacing,
+          node.textDirection,
+          undefined,
+          justified.wordSpacing
+        ),
+      };
+    });
+  }
+  const contentHeight = getTextBlockHeight(lines, trims);
+  const width = Math.max(
+    0,
+    boxWidth ?? lineWidth + bleed.left + bleed.right
+  );
+  const height = Math.max(
+    0,
+    boxHeight ?? contentHeight + bleed.top + bleed.bottom
+  );
+
+  const freeHeight = (maxHeight ?? contentHeight) - contentHeight;
+  const offsetY =
+    bleed.top -
+    (trims[0]?.top ?? 0) +
+    (node.textAlignVertical === "CENTER"
+      ? freeHeight / 2
+      : node.textAlignVertical === "BOTTOM"
+      ? freeHeight
+      : 0);
 
   return {
     node,
@@ -420,17 +930,32 @@ function layoutTextNode(
     children: [],
     textLayout: {
       lines,
-      font,
-      color: node.textColor ?? DEFAULT_TEXT_COLOR,
+      styles,
+      font: baseStyle.font,
+      fontFamily: baseStyle.fontFamily,
+      fontCssWeight: baseStyle.fontCssWeight,
+      fallbackFamilies: baseStyle.fallbackFamilies,
+      fontSize: textLines.fontSize,
+      color: baseStyle.color,
       letterSpacing,
-      lineHeight,
       direction: node.textDirection,
       textAlign:
         node.textAlign === "CENTER"
           ? "center"
           : node.textAlign === "RIGHT"
           ? "right"
+          : node.textAlign === "LEFT"
+          ? "left"
+          : node.textDirection === "RTL"
+          ? "right"
           : "left",
+      offsetY,
+      inset: { left: bleed.left, right: bleed.right },
+      stroke,
+      shadows,
+      decoration: node.textDecoration,
+      lineBackground,
+      clip: node.textOverflow !== "VISIBLE",
     },
   };
 }
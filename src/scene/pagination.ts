@@ -1,9 +1,25 @@
-import { createCanvas } from "@napi-rs/canvas";
-import { buildFontStack } from "../config/fonts.js";
+import { createCanvas, Path2D } from "@napi-rs/canvas";
+import { buildFontStack, type FontFallbacks } from "../config/fonts.js";
 import {
+  encodeCanvas,
+  isTransparentColor,
+  type ImageEncodingOptions,
+} from "./encode.js";
+import { paintFill, type ImageBackground } from "./fills.js";
+import {
+  buildLineBackgroundPath,
   drawTextWithLetterSpacing,
+  getTextEffectsBleed,
   getTextWidthWithLetterSpacing,
+  justifyTextRuns,
+  wrapTextLTR,
   wrapTextRTL,
+  type TextAlign,
+  type TextEffects,
+  type TextFont,
+  type TextLineBackground,
+  type TextRun,
+  type WordBreak,
 } from "./text.js";
 
 export function calculateMaxLines(
@@ -22,9 +38,15 @@ export function paginateText(
   text: string,
   maxWidth: number,
   maxLines: number,
-  letterSpacing: number
+  letterSpacing: number,
+  textFont?: TextFont,
+  direction: "LTR" | "RTL" = "RTL",
+  wordBreak: WordBreak = "NORMAL"
 ): string[][] {
-  const allLines = wrapTextRTL(ctx, text, maxWidth, letterSpacing);
+  const allLines =
+    direction === "RTL"
+      ? wrapTextRTL(ctx, text, maxWidth, letterSpacing, textFont, wordBreak)
+      : wrapTextLTR(ctx, text, maxWidth, letterSpacing, textFont, wordBreak);
   const pages: string[][] = [];
   let currentPage: string[] = [];
 
@@ -44,50 +66,156 @@ export function paginateText(
   return pages;
 }
 
+// With JUSTIFY every line but the last one of the text is stretched.
+// `endsText` says whether these lines end the text or more pages follow.
+export function shouldJustifyLine(
+  textAlign: TextAlign,
+  index: number,
+  lineCount: number,
+  endsText: boolean
+) {
+  if (textAlign === "JUSTIFY_ALL") return true;
+  return textAlign === "JUSTIFY" && !(endsText && index === lineCount - 1);
+}
+
+// Left edge of a line inside the padded text area. Justified lines start
+// at the edge their direction starts from.
+export function alignTextLine(
+  textAlign: TextAlign,
+  direction: "LTR" | "RTL",
+  padding: number,
+  maxTextWidth: number,
+  lineWidth: number
+) {
+  const alignsRight =
+    textAlign === "RIGHT" ||
+    ((textAlign === "JUSTIFY" || textAlign === "JUSTIFY_ALL") &&
+      direction === "RTL");
+  if (textAlign === "CENTER") return padding + (maxTextWidth - lineWidth) / 2;
+  return alignsRight ? padding + maxTextWidth - lineWidth : padding;
+}
+
 export async function generateImage(
   lines: string[],
   width: number,
   height: number,
-  bgColor: string,
+  bgColor: ImageBackground,
   textColor: string,
   fontSize: number,
   letterSpacing: number,
   padding: number,
   fontFamily: string,
-  fontCssWeight: string
+  fontCssWeight: string,
+  fallbackFamilies: FontFallbacks,
+  direction: "LTR" | "RTL",
+  encoding?: ImageEncodingOptions,
+  textAlign: TextAlign = "CENTER",
+  endsText = true,
+  effects: TextEffects = {},
+  lineBackground?: TextLineBackground
 ): Promise<Buffer> {
   const canvas = createCanvas(width, height);
   const ctx = canvas.getContext("2d");
 
   // Draw background
-  ctx.fillStyle = bgColor;
-  ctx.fillRect(0, 0, width, height);
+  if (typeof bgColor !== "string") {
+    await paintFill(ctx, bgColor, { x: 0, y: 0, width, height });
+  } else if (!isTransparentColor(bgColor)) {
+    ctx.fillStyle = bgColor;
+    ctx.fillRect(0, 0, width, height);
+  }
 
   // Set font and text properties
-  ctx.font = buildFontStack(fontCssWeight, fontSize, fontFamily);
+  ctx.font = buildFontStack(
+    fontCssWeight,
+    fontSize,
+    fontFamily,
+    fallbackFamilies
+  );
   ctx.fillStyle = textColor;
   ctx.textBaseline = "middle";
-  ctx.textAlign = "right";
+  ctx.textAlign = direction === "RTL" ? "right" : "left";
 
   // Calculate positioning
   const lineHeight = fontSize * 1.5;
   const totalTextHeight = lines.length * lineHeight;
   let y = height / 2 - totalTextHeight / 2 + lineHeight / 2;
-  const maxTextWidth = width - 2 * padding;
+  // Lines stay clear of the effects and line background inside the padding.
+  const bleed = getTextEffectsBleed(effects, lineBackground);
+  const textLeft = padding + bleed.left;
+  const maxTextWidth = width - 2 * padding - bleed.left - bleed.right;
+  const textFont: TextFont = {
+    fontFamily,
+    fontCssWeight,
+    fontSize,
+    fallbackFamilies,
+  };
 
-  // Draw each line
-  for (const line of lines) {
-    const safeLine = String(line);
+  // Place each line
+  const placedLines = [];
+  for (const [index, line] of lines.entries()) {
+    let runs: TextRun[] = [{ text: String(line), font: textFont }];
+    let wordSpacing = 0;
+    if (shouldJustifyLine(textAlign, index, lines.length, endsText)) {
+      ({ runs, wordSpacing } = justifyTextRuns(
+        ctx,
+        runs,
+        maxTextWidth,
+        letterSpacing,
+        direction
+      ));
+    }
     const lineWidth = getTextWidthWithLetterSpacing(
       ctx,
-      safeLine,
-      letterSpacing
+      runs,
+      letterSpacing,
+      direction,
+      undefined,
+      wordSpacing
     );
-    const x = width - padding - (maxTextWidth - lineWidth) / 2;
-    drawTextWithLetterSpacing(ctx, safeLine, x, y, letterSpacing);
+    const left = alignTextLine(
+      textAlign,
+      direction,
+      textLeft,
+      maxTextWidth,
+      lineWidth
+    );
+    placedLines.push({ runs, wordSpacing, left, lineWidth, y });
     y += lineHeight;
   }
 
-  return await canvas.encode("png");
+  // Draw the line background underneath all lines
+  if (lineBackground) {
+    const path = buildLineBackgroundPath(
+      placedLines.map(({ left, lineWidth, y }) => ({
+        left,
+        right: left + lineWidth,
+        top: y - lineHeight / 2,
+        bottom: y + lineHeight / 2,
+      })),
+      lineBackground
+    );
+    ctx.fillStyle = lineBackground.color;
+    ctx.fill(new Path2D(path));
+    ctx.fillStyle = textColor;
+  }
+
+  // Draw each line
+  for (const { runs, wordSpacing, left, lineWidth, y } of placedLines) {
+    // `x` is the edge the drawing direction starts from.
+    drawTextWithLetterSpacing(
+      ctx,
+      runs,
+      direction === "RTL" ? left + lineWidth : left,
+      y,
+      letterSpacing,
+      direction,
+      undefined,
+      wordSpacing,
+      effects
+    );
+  }
+
+  return await encodeCanvas(canvas, encoding);
 }
 
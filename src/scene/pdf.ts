@@ -0,0 +1,1420 @@
+import { createCanvas } from "@napi-rs/canvas";
+import fontkit, { type Font, type Glyph } from "@pdf-lib/fontkit";
+import { readFile } from "fs/promises";
+import { extname } from "path";
+import {
+  appendBezierCurve,
+  beginText,
+  clip,
+  closePath,
+  endPath,
+  endMarkedContent,
+  endText,
+  fill,
+  LineJoinStyle,
+  lineTo,
+  moveTo,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFOperator,
+  PDFOperatorNames,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+  setFillingColor,
+  setFontAndSize,
+  setGraphicsState,
+  setLineJoin,
+  setLineWidth,
+  setStrokingColor,
+  setTextMatrix,
+  setTextRenderingMode,
+  showText,
+  stroke,
+  TextRenderingMode,
+  type PDFFont,
+  type PDFImage,
+  type PDFObject,
+  type PDFPage,
+  PDFString,
+} from "pdf-lib";
+import wawoff2 from "wawoff2";
+import {
+  buildFontStack,
+  findSystemFontPath,
+  getRegisteredFontPath,
+  isSystemFontFamily,
+  type FontFallbacks,
+} from "../config/fonts.js";
+import { SceneValidationError } from "../errors.js";
+import { fetchImageAsset } from "./assets.js";
+import { isTransparentColor } from "./encode.js";
+import {
+  getImageFillRect,
+  getLinearGradientLine,
+  getRadialGradientCircle,
+  type FillBox,
+  type GradientStop,
+  type ImageBackground,
+  type SceneFill,
+} from "./fills.js";
+import { toLineTextRuns, toTextFont } from "./layout.js";
+import { alignTextLine, shouldJustifyLine } from "./pagination.js";
+import {
+  buildLineBackgroundPath,
+  isWordSpace,
+  justifyTextRuns,
+  getTextEffectsBleed,
+  layoutTextPieces,
+  resolveTextDecorationLine,
+  toMirroredText,
+  type TextAlign,
+  type TextDecorationLine,
+  type TextEffects,
+  type TextFont,
+  type TextLineBackground,
+  type TextLineBox,
+  type TextPiece,
+  type TextRun,
+  type TextShadow,
+  type TextStroke,
+} from "./text.js";
+import {
+  type LayoutNodeResult,
+  type ScenePageLayout,
+  type TextLayoutMetadata,
+} from "./types.js";
+
+export type PdfMode = "raster" | "vector";
+
+const PDF_MODES: PdfMode[] = ["raster", "vector"];
+
+type PdfModeResolutionSuccess = { ok: true; mode: PdfMode };
+
+type PdfModeResolutionFailure = { ok: false; error: string };
+
+export type PdfModeResolutionResult =
+  | PdfModeResolutionSuccess
+  | PdfModeResolutionFailure;
+
+export function resolvePdfMode(input: unknown): PdfModeResolutionResult {
+  if (input === undefined) {
+    return { ok: true, mode: "raster" };
+  }
+  const value = typeof input === "string" ? input.trim().toLowerCase() : "";
+  const mode = PDF_MODES.find((candidate) => candidate === value);
+  if (!mode) {
+    return {
+      ok: false,
+      error: `Unsupported 'pdfMode'. Available options: ${PDF_MODES.join(
+        ", "
+      )}.`,
+    };
+  }
+  return { ok: true, mode };
+}
+
+interface PdfColor {
+  color: ReturnType<typeof rgb>;
+  alpha: number;
+}
+
+interface PdfFontMetrics {
+  ascent: number;
+  descent: number;
+  unitsPerEm: number;
+}
+
+interface EmbeddedPdfFont {
+  font: PDFFont;
+  // Parsed copy of the embedded font, used to shape text.
+  face: Font;
+  metrics: PdfFontMetrics;
+}
+
+interface VectorPdfContext {
+  doc: PDFDocument;
+  // Keyed by font file path.
+  fonts: Map<string, EmbeddedPdfFont>;
+  images: Map<string, PDFImage>;
+  // Numbers the fill patterns added to page resources.
+  patternCount: number;
+}
+
+const fontBytesCache = new Map<string, Promise<Uint8Array>>();
+const colorProbe = createCanvas(1, 1).getContext("2d");
+const textMeasureContext = createCanvas(1, 1).getContext("2d");
+
+function loadFontBytes(fontPath: string): Promise<Uint8Array> {
+  let cached = fontBytesCache.get(fontPath);
+  if (!cached) {
+    // Font subsetting needs plain sfnt data, so WOFF2 files are decompressed
+    // before being handed to pdf-lib. The decompressed bytes are a view into
+    // the decoder's memory and are copied before the next call reuses it.
+    cached = readFile(fontPath).then(async (data) =>
+      extname(fontPath).toLowerCase() === ".woff2"
+        ? Buffer.from(await wawoff2.decompress(data))
+        : data
+    );
+    fontBytesCache.set(fontPath, cached);
+  }
+  return cached;
+}
+
+function parseColor(color: string): PdfColor | null {
+  colorProbe.clearRect(0, 0, 1, 1);
+  colorProbe.fillStyle = "transparent";
+  colorProbe.fillStyle = color;
+  colorProbe.fillRect(0, 0, 1, 1);
+  const [r = 0, g = 0, b = 0, a = 0] = colorProbe.getImageData(0, 0, 1, 1).data;
+  if (a === 0) return null;
+  return { color: rgb(r / 255, g / 255, b / 255), alpha: a / 255 };
+}
+
+// System fonts are embedded from their installed files, in the weight
+// closest to the text's. Families without a file that can be embedded fail
+// the render rather than being drawn with missing glyphs.
+async function embedFont(
+  context: VectorPdfContext,
+  fontFamily: string,
+  fontCssWeight = "400"
+): Promise<EmbeddedPdfFont> {
+  const fontPath =
+    getRegisteredFontPath(fontFamily) ??
+    (isSystemFontFamily(fontFamily)
+      ? await findSystemFontPath(fontFamily, Number(fontCssWeight))
+      : undefined);
+  if (!fontPath) {
+    throw new SceneValidationError(
+      `Font '${fontFamily}' cannot be embedded in a vector PDF. Use "pdfMode": "raster" for text that needs it.`,
+      422
+    );
+  }
+  const cached = context.fonts.get(fontPath);
+  if (cached) return cached;
+  const bytes = await loadFontBytes(fontPath);
+  const parsed = fontkit.create(bytes);
+  const embedded: EmbeddedPdfFont = {
+    font: await context.doc.embedFont(bytes, { subset: true }),
+    face: parsed,
+    metrics: {
+      ascent: parsed.ascent,
+      descent: parsed.descent,
+      unitsPerEm: parsed.unitsPerEm,
+    },
+  };
+  context.fonts.set(fontPath, embedded);
+  return embedded;
+}
+
+function scaleFontMetric(
+  metrics: PdfFontMetrics,
+  value: number,
+  fontSize: number
+) {
+  return (value / metrics.unitsPerEm) * fontSize;
+}
+
+async function embedImage(
+  context: VectorPdfContext,
+  imageUrl: string
+): Promise<PDFImage> {
+  const cached = context.images.get(imageUrl);
+  if (cached) return cached;
+
+  const asset = await fetchImageAsset(imageUrl);
+  let image: PDFImage;
+  if (asset.contentType === "image/png") {
+    image = await context.doc.embedPng(asset.buffer);
+  } else if (asset.contentType === "image/jpeg") {
+    image = await context.doc.embedJpg(asset.buffer);
+  } else {
+    const canvas = createCanvas(asset.image.width, asset.image.height);
+    canvas.getContext("2d").drawImage(asset.image, 0, 0);
+    image = await context.doc.embedPng(await canvas.encode("png"));
+  }
+  context.images.set(imageUrl, image);
+  return image;
+}
+
+function roundedRectPath(width: number, height: number, radius: number) {
+  const r = Math.min(radius, width / 2, height / 2);
+  return [
+    `M ${r} 0`,
+    `L ${width - r} 0`,
+    `Q ${width} 0 ${width} ${r}`,
+    `L ${width} ${height - r}`,
+    `Q ${width} ${height} ${width - r} ${height}`,
+    `L ${r} ${height}`,
+    `Q 0 ${height} 0 ${height - r}`,
+    `L 0 ${r}`,
+    `Q 0 0 ${r} 0`,
+    "Z",
+  ].join(" ");
+}
+
+function fillRect(
+  page: PDFPage,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  color: string,
+  cornerRadius: number,
+  opacity: number
+) {
+  const parsed = parseColor(color);
+  if (!parsed) return;
+  const pageHeight = page.getHeight();
+  if (cornerRadius > 0) {
+    page.drawSvgPath(roundedRectPath(width, height, cornerRadius), {
+      x,
+      y: pageHeight - y,
+      color: parsed.color,
+      opacity: parsed.alpha * opacity,
+      borderWidth: 0,
+    });
+    return;
+  }
+  page.drawRectangle({
+    x,
+    y: pageHeight - y - height,
+    width,
+    height,
+    color: parsed.color,
+    opacity: parsed.alpha * opacity,
+    borderWidth: 0,
+  });
+}
+
+function fillLineBackground(
+  page: PDFPage,
+  lines: TextLineBox[],
+  background: TextLineBackground,
+  opacity: number
+) {
+  const parsed = parseColor(background.color);
+  const path = buildLineBackgroundPath(lines, background);
+  if (!parsed || !path) return;
+  page.drawSvgPath(path, {
+    x: 0,
+    y: page.getHeight(),
+    color: parsed.color,
+    opacity: parsed.alpha * opacity,
+    borderWidth: 0,
+  });
+}
+
+// A fill ready to paint with: a plain color, or a pattern in the page's
+// resources.
+type PdfPaint =
+  | { color: ReturnType<typeof rgb>; opacity: number }
+  | { pattern: PDFName; opacity: number };
+
+function formatPdfNumber(value: number) {
+  return String(Math.round(value * 10000) / 10000);
+}
+
+function addPagePattern(
+  context: VectorPdfContext,
+  page: PDFPage,
+  pattern: PDFObject
+): PDFName {
+  const { Resources } = page.node.normalizedEntries();
+  const key = PDFName.of("Pattern");
+  let patterns = Resources.lookupMaybe(key, PDFDict);
+  if (!patterns) {
+    patterns = context.doc.context.obj({});
+    Resources.set(key, patterns);
+  }
+  context.patternCount += 1;
+  const name = PDFName.of(`Fill${context.patternCount}`);
+  patterns.set(name, context.doc.context.register(pattern));
+  return name;
+}
+
+// Shadings have no alpha channel: stops are painted opaque, and a fully
+// transparent stop takes the color before it. The first and last colors
+// extend to the ends of the gradient line, as on the canvas.
+function createGradientFunction(doc: PDFDocument, stops: GradientStop[]) {
+  const parsed = stops.map((stop) => parseColor(stop.color));
+  let previous = parsed.find((color) => color)?.color ?? rgb(0, 0, 0);
+  const points = stops.map((stop, index) => {
+    previous = parsed[index]?.color ?? previous;
+    return {
+      position: stop.position,
+      color: [previous.red, previous.green, previous.blue],
+    };
+  });
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (first && first.position > 0) points.unshift({ ...first, position: 0 });
+  if (last && last.position < 1) points.push({ ...last, position: 1 });
+
+  // Stops at the same position make a hard edge, so the empty segment
+  // between them is dropped.
+  const segments = [];
+  for (const [index, to] of points.entries()) {
+    const from = points[index - 1];
+    if (from && to.position > from.position) {
+      segments.push({ position: from.position, C0: from.color, C1: to.color });
+    }
+  }
+  const interpolate = ({ C0, C1 }: { C0: number[]; C1: number[] }) =>
+    doc.context.obj({ FunctionType: 2, Domain: [0, 1], C0, C1, N: 1 });
+  const [single] = segments;
+  if (segments.length <= 1) {
+    const color = last?.color ?? [0, 0, 0];
+    return interpolate(single ?? { C0: color, C1: color });
+  }
+  return doc.context.obj({
+    FunctionType: 3,
+    Domain: [0, 1],
+    Functions: segments.map(interpolate),
+    Bounds: segments.slice(1).map((segment) => segment.position),
+    Encode: segments.flatMap(() => [0, 1]),
+  });
+}
+
+// Gradients become shading patterns and images tiling patterns, both laid
+// out in page space over `box`. Returns null when there is nothing to paint.
+async function createPdfPaint(
+  context: VectorPdfContext,
+  page: PDFPage,
+  fill: SceneFill,
+  box: FillBox,
+  opacity: number
+): Promise<PdfPaint | null> {
+  if (fill.type === "SOLID") {
+    const parsed = parseColor(fill.color);
+    return (
+      parsed && {
+        color: parsed.color,
+        opacity: parsed.alpha * fill.opacity * opacity,
+      }
+    );
+  }
+
+  const pageHeight = page.getHeight();
+  const pdfContext = context.doc.context;
+  if (fill.type === "IMAGE") {
+    const image = await embedImage(context, fill.imageUrl);
+    const tiled = fill.scaleMode === "TILE";
+    const cell = tiled
+      ? { x: box.x, y: box.y, width: image.width, height: image.height }
+      : box;
+    if (cell.width <= 0 || cell.height <= 0) return null;
+    const rect = tiled
+      ? cell
+      : getImageFillRect(box, image.width, image.height, fill.scaleMode);
+    // Pattern space starts at the bottom-left corner of the cell. FILL and
+    // FIT step past the page so the image is drawn only once.
+    const placement = [
+      rect.width,
+      0,
+      0,
+      rect.height,
+      rect.x - cell.x,
+      cell.y + cell.height - rect.y - rect.height,
+    ]
+      .map(formatPdfNumber)
+      .join(" ");
+    const pattern = pdfContext.stream(`q ${placement} cm /Im Do Q`, {
+      Type: "Pattern",
+      PatternType: 1,
+      PaintType: 1,
+      TilingType: 1,
+      BBox: [0, 0, cell.width, cell.height],
+      XStep: tiled ? cell.width : cell.width + page.getWidth(),
+      YStep: tiled ? cell.height : cell.height + pageHeight,
+      Matrix: [1, 0, 0, 1, cell.x, pageHeight - cell.y - cell.height],
+      Resources: { XObject: { Im: image.ref } },
+    });
+    return {
+      pattern: addPagePattern(context, page, pattern),
+      opacity: fill.opacity * opacity,
+    };
+  }
+
+  let coords: number[];
+  if (fill.type === "GRADIENT_LINEAR") {
+    const { x0, y0, x1, y1 } = getLinearGradientLine(box, fill.angle);
+    coords = [x0, pageHeight - y0, x1, pageHeight - y1];
+  } else {
+    const { cx, cy, r } = getRadialGradientCircle(box);
+    coords = [cx, pageHeight - cy, 0, cx, pageHeight - cy, r];
+  }
+  const pattern = pdfContext.obj({
+    Type: "Pattern",
+    PatternType: 2,
+    Shading: {
+      ShadingType: fill.type === "GRADIENT_LINEAR" ? 2 : 3,
+      ColorSpace: "DeviceRGB",
+      Coords: coords,
+      Function: createGradientFunction(context.doc, fill.stops),
+      Extend: [true, true],
+    },
+  });
+  return {
+    pattern: addPagePattern(context, page, pattern),
+    opacity: fill.opacity * opacity,
+  };
+}
+
+async function createPdfPaints(
+  context: VectorPdfContext,
+  page: PDFPage,
+  fills: SceneFill[],
+  box: FillBox,
+  opacity: number
+): Promise<PdfPaint[]> {
+  const paints: PdfPaint[] = [];
+  for (const fill of fills) {
+    const paint = await createPdfPaint(context, page, fill, box, opacity);
+    if (paint) paints.push(paint);
+  }
+  return paints;
+}
+
+// Sets the fill color or pattern; callers wrap these in a saved state.
+function paintOperators(page: PDFPage, paint: PdfPaint): PDFOperator[] {
+  const operators: PDFOperator[] = [];
+  if (paint.opacity < 1) {
+    const state = page.doc.context.obj({
+      Type: "ExtGState",
+      ca: paint.opacity,
+    });
+    operators.push(setGraphicsState(page.node.newExtGState("GS", state)));
+  }
+  if ("color" in paint) {
+    operators.push(setFillingColor(paint.color));
+  } else {
+    operators.push(
+      PDFOperator.of(PDFOperatorNames.NonStrokingColorspace, [
+        PDFName.of("Pattern"),
+      ]),
+      PDFOperator.of(PDFOperatorNames.NonStrokingColorN, [paint.pattern])
+    );
+  }
+  return operators;
+}
+
+function fillPath(page: PDFPage, paint: PdfPaint, path: PDFOperator[]) {
+  page.pushOperators(
+    pushGraphicsState(),
+    ...paintOperators(page, paint),
+    ...path,
+    fill(),
+    popGraphicsState()
+  );
+}
+
+function strokePath(
+  page: PDFPage,
+  color: PdfColor["color"],
+  opacity: number,
+  width: number,
+  path: PDFOperator[]
+) {
+  const operators = [
+    setStrokingColor(color),
+    setLineWidth(width),
+    setLineJoin(LineJoinStyle.Round),
+  ];
+  if (opacity < 1) {
+    const state = page.doc.context.obj({ Type: "ExtGState", CA: opacity });
+    operators.push(setGraphicsState(page.node.newExtGState("GS", state)));
+  }
+  page.pushOperators(
+    pushGraphicsState(),
+    ...operators,
+    ...path,
+    stroke(),
+    popGraphicsState()
+  );
+}
+
+type GlyphPathCommand = { command: string; args: number[] };
+
+// Path operators for a glyph's outline with its origin at `x`, `y`. Outlines
+// are in font units with y pointing up, like PDF space; quadratic segments
+// are raised to cubic ones.
+function glyphOutline(
+  glyph: Glyph,
+  scale: number,
+  x: number,
+  y: number
+): PDFOperator[] {
+  const { commands } = glyph.path as unknown as {
+    commands: GlyphPathCommand[];
+  };
+  const operators: PDFOperator[] = [];
+  let current = { x, y };
+  for (const { command, args } of commands) {
+    const points: { x: number; y: number }[] = [];
+    for (let index = 0; index + 1 < args.length; index += 2) {
+      points.push({
+        x: x + (args[index] ?? 0) * scale,
+        y: y + (args[index + 1] ?? 0) * scale,
+      });
+    }
+    const [a, b, c] = points;
+    if (command === "moveTo" && a) {
+      operators.push(moveTo(a.x, a.y));
+    } else if (command === "lineTo" && a) {
+      operators.push(lineTo(a.x, a.y));
+    } else if (command === "quadraticCurveTo" && a && b) {
+      operators.push(
+        appendBezierCurve(
+          current.x + ((a.x - current.x) * 2) / 3,
+          current.y + ((a.y - current.y) * 2) / 3,
+          b.x + ((a.x - b.x) * 2) / 3,
+          b.y + ((a.y - b.y) * 2) / 3,
+          b.x,
+          b.y
+        )
+      );
+    } else if (command === "bezierCurveTo" && a && b && c) {
+      operators.push(appendBezierCurve(a.x, a.y, b.x, b.y, c.x, c.y));
+    } else if (command === "closePath") {
+      operators.push(closePath());
+    }
+    current = points[points.length - 1] ?? current;
+  }
+  return operators;
+}
+
+// Font resource names for glyphs drawn with raw operators, one per font and
+// page.
+const pageFontKeys = new WeakMap<PDFPage, Map<PDFFont, PDFName>>();
+
+function getPageFontKey(page: PDFPage, font: PDFFont): PDFName {
+  let keys = pageFontKeys.get(page);
+  if (!keys) {
+    keys = new Map();
+    pageFontKeys.set(page, keys);
+  }
+  let key = keys.get(font);
+  if (!key) {
+    key = page.node.newFontDictionary(font.name, font.ref);
+    keys.set(font, key);
+  }
+  return key;
+}
+
+interface PdfGlyph {
+  code: PDFHexString;
+  outline: Glyph;
+  // Offset from the start of the piece, in points.
+  x: number;
+  y: number;
+}
+
+interface PdfTextPiece {
+  // Visual order, left to right.
+  glyphs: PdfGlyph[];
+  width: number;
+  // Points per font unit.
+  scale: number;
+  font: PDFFont;
+  fontSize: number;
+  color: PdfColor | null | undefined;
+  run: number;
+  direction: "LTR" | "RTL";
+  levelStart: number;
+  // A single space, widened by the line's word spacing.
+  space: boolean;
+}
+
+// pdf-lib encodes text by shaping it with fontkit, so the glyph codes it
+// returns line up with the positions of the same layout. fontkit reverses
+// right-to-left scripts itself; pieces of neutrals in a right-to-left run
+// are reversed here.
+function shapePdfPiece(
+  embedded: EmbeddedPdfFont,
+  piece: TextPiece,
+  fontSize: number
+): { glyphs: PdfGlyph[]; width: number; scale: number } {
+  const text = toMirroredText(piece);
+  const run = embedded.face.layout(text);
+  const codes = embedded.font.encodeText(text).asString().match(/.{4}/g) ?? [];
+  const shaped = run.glyphs.flatMap((outline, index) => {
+    const position = run.positions[index];
+    return position
+      ? [{ outline, position, code: codes[index] ?? "0000" }]
+      : [];
+  });
+  if ((run.direction === "rtl") !== (piece.direction === "RTL")) {
+    shaped.reverse();
+  }
+  const scale = fontSize / embedded.face.unitsPerEm;
+  let width = 0;
+  const glyphs = shaped.map(({ outline, position, code }) => {
+    const glyph = {
+      code: PDFHexString.of(code),
+      outline,
+      x: width + position.xOffset * scale,
+      y: position.yOffset * scale,
+    };
+    width += position.xAdvance * scale;
+    return glyph;
+  });
+  return { glyphs, width, scale };
+}
+
+// Uses the same pieces as the canvas renderer, so spacing, kashida and font
+// choice match, with fallbacks embedded like the primary font. Runs without
+// a font or color use the defaults passed in.
+async function resolvePdfTextPieces(
+  context: VectorPdfContext,
+  runs: TextRun[],
+  direction: "LTR" | "RTL",
+  letterSpacing: number,
+  textFont: TextFont,
+  wordSpacing = 0
+): Promise<PdfTextPiece[]> {
+  const pieces = layoutTextPieces(
+    runs,
+    direction,
+    letterSpacing,
+    (runFont, fontFamily) => {
+      const font = runFont ?? textFont;
+      textMeasureContext.font = buildFontStack(
+        font.fontCssWeight,
+        font.fontSize,
+        fontFamily ?? font.fontFamily
+      );
+      return textMeasureContext.measureText("\u0640").width;
+    },
+    wordSpacing
+  );
+  const resolved: PdfTextPiece[] = [];
+  for (const piece of pieces) {
+    const run = runs[piece.run];
+    const runFont = run?.font ?? textFont;
+    const embedded = await embedFont(
+      context,
+      piece.fontFamily ?? runFont.fontFamily,
+      runFont.fontCssWeight
+    );
+    resolved.push({
+      ...shapePdfPiece(embedded, piece, runFont.fontSize),
+      font: embedded.font,
+      fontSize: runFont.fontSize,
+      color: run?.color === undefined ? undefined : parseColor(run.color),
+      run: piece.run,
+      direction: piece.direction,
+      levelStart: piece.levelStart,
+      space: isWordSpace(piece),
+    });
+  }
+  return resolved;
+}
+
+function measurePdfTextLine(
+  pieces: PdfTextPiece[],
+  letterSpacing: number,
+  wordSpacing = 0
+) {
+  if (pieces.length === 0) return 0;
+  return (
+    pieces.reduce(
+      (sum, piece) =>
+        sum + piece.width + (piece.space ? wordSpacing : 0),
+      0
+    ) +
+    letterSpacing * (pieces.length - 1)
+  );
+}
+
+// Justified lines are spread again with the embedded font's metrics, so
+// they end exactly at `width`.
+function fitPdfWordSpacing(
+  pieces: PdfTextPiece[],
+  letterSpacing: number,
+  wordSpacing: number,
+  width: number
+) {
+  const spaces = pieces.filter((piece) => piece.space).length;
+  if (!wordSpacing || spaces === 0) return 0;
+  return (width - measurePdfTextLine(pieces, letterSpacing)) / spaces;
+}
+
+// Shaped glyphs do not map back to characters one to one (ligatures,
+// contextual forms, mirrored brackets), so every run carries its logical
+// text for copying and search. Kashida only stretches the drawn words and
+// is left out.
+function beginActualText(text: string): PDFOperator {
+  const actualText = PDFHexString.fromText(text.replace(/\u0640/g, ""));
+  return PDFOperator.of(PDFOperatorNames.BeginMarkedContentSequence, [
+    PDFName.of("Span"),
+    `<</ActualText ${actualText.toString()}>>`,
+  ]);
+}
+
+// Extra copies of the text, such as the stroke, are not extracted again.
+function beginArtifact(): PDFOperator {
+  return PDFOperator.of(PDFOperatorNames.BeginMarkedContent, [
+    PDFName.of("Artifact"),
+  ]);
+}
+
+// Mirrors `drawTextWithLetterSpacing`: shaped pieces are placed left to right
+// with letter spacing between them, each glyph at its shaped position, and
+// shadows and the stroke are painted before the fill. Each run is shown as
+// one text object tagged with its entry in `runTexts`. Shadows are drawn from
+// the glyph outlines, so they are never extracted as text; blurred ones have
+// no vector equivalent and fail the render. With `fills`, pieces without a
+// color of their own are drawn once per paint instead of in `color`. Returns
+// the horizontal extent of every piece.
+function drawPdfTextLine(
+  page: PDFPage,
+  pieces: PdfTextPiece[],
+  options: {
+    x: number;
+    baseline: number;
+    letterSpacing: number;
+    wordSpacing: number;
+    runTexts: string[];
+    color: PdfColor | null;
+    opacity: number;
+    fills?: PdfPaint[] | undefined;
+    stroke?: TextStroke | undefined;
+    shadows?: TextShadow[] | undefined;
+    decoration?: TextDecorationLine | undefined;
+  }
+): { run: number; x: number; width: number }[] {
+  const shadows = options.shadows ?? [];
+  if (shadows.some((shadow) => shadow.blur > 0)) {
+    throw new SceneValidationError(
+      `Blurred text shadows cannot be drawn in a vector PDF. Use "pdfMode": "raster" or a 'blur' of 0.`,
+      422
+    );
+  }
+  const pageHeight = page.getHeight();
+  const y = pageHeight - options.baseline;
+  const width = measurePdfTextLine(
+    pieces,
+    options.letterSpacing,
+    options.wordSpacing
+  );
+  const decorationRect = options.decoration && {
+    x: options.x,
+    y:
+      pageHeight -
+      options.baseline -
+      options.decoration.offset -
+      options.decoration.thickness / 2,
+    width,
+    height: options.decoration.thickness,
+  };
+
+  const extents: { run: number; x: number; width: number }[] = [];
+  const glyphs: { piece: PdfTextPiece; glyph: PdfGlyph; x: number }[] = [];
+  let cursor = options.x;
+  for (const piece of pieces) {
+    const start = cursor;
+    for (const glyph of piece.glyphs) {
+      glyphs.push({ piece, glyph, x: cursor + glyph.x });
+    }
+    cursor += piece.width;
+    if (piece.space) cursor += options.wordSpacing;
+    extents.push({ run: piece.run, x: start, width: cursor - start });
+    cursor += options.letterSpacing;
+  }
+
+  const showRun = (
+    run: number,
+    marker: PDFOperator,
+    paint: PDFOperator[]
+  ) => {
+    // Glyphs are shown in logical order: level runs by where they start,
+    // right-to-left ones back to front.
+    const ordered = glyphs
+      .map((glyph, index) => ({ ...glyph, index }))
+      .filter((glyph) => glyph.piece.run === run)
+      .sort(
+        (a, b) =>
+          a.piece.levelStart - b.piece.levelStart ||
+          (a.piece.direction === "RTL" ? b.index - a.index : a.index - b.index)
+      );
+    const operators: PDFOperator[] = [];
+    let current: PdfTextPiece | undefined;
+    for (const glyph of ordered) {
+      if (
+        glyph.piece.font !== current?.font ||
+        glyph.piece.fontSize !== current.fontSize
+      ) {
+        operators.push(
+          setFontAndSize(
+            getPageFontKey(page, glyph.piece.font),
+            glyph.piece.fontSize
+          )
+        );
+      }
+      current = glyph.piece;
+      operators.push(
+        setTextMatrix(1, 0, 0, 1, glyph.x, y + glyph.glyph.y),
+        showText(glyph.glyph.code)
+      );
+    }
+    page.pushOperators(
+      marker,
+      pushGraphicsState(),
+      ...paint,
+      beginText(),
+      ...operators,
+      endText(),
+      popGraphicsState(),
+      endMarkedContent()
+    );
+  };
+  const runs = Array.from(new Set(pieces.map((piece) => piece.run)));
+  const colorPaint = (color: PdfColor): PdfPaint => ({
+    color: color.color,
+    opacity: color.alpha * options.opacity,
+  });
+
+  // The first shadow is painted on top, as in CSS.
+  for (const shadow of [...shadows].reverse()) {
+    const shadowColor = parseColor(shadow.color);
+    if (!shadowColor) continue;
+    const paint = colorPaint(shadowColor);
+    const outlines = glyphs.flatMap(({ piece, glyph, x }) =>
+      glyphOutline(
+        glyph.outline,
+        piece.scale,
+        x + shadow.offsetX,
+        y + glyph.y - shadow.offsetY
+      )
+    );
+    const shadowRect = decorationRect && {
+      ...decorationRect,
+      x: decorationRect.x + shadow.offsetX,
+      y: decorationRect.y - shadow.offsetY,
+    };
+    if (options.stroke && parseColor(options.stroke.color)) {
+      if (outlines.length > 0) {
+        strokePath(
+          page,
+          shadowColor.color,
+          paint.opacity,
+          options.stroke.width * 2,
+          outlines
+        );
+      }
+      if (shadowRect) {
+        page.drawRectangle({
+          ...shadowRect,
+          borderColor: shadowColor.color,
+          borderWidth: options.stroke.width * 2,
+          borderOpacity: paint.opacity,
+        });
+      }
+    }
+    if (outlines.length > 0) fillPath(page, paint, outlines);
+    if (shadowRect) {
+      fillPath(page, paint, [
+        rectangle(
+          shadowRect.x,
+          shadowRect.y,
+          shadowRect.width,
+          shadowRect.height
+        ),
+      ]);
+    }
+  }
+
+  const strokeColor = options.stroke && parseColor(options.stroke.color);
+  if (options.stroke && strokeColor) {
+    const strokeOpacity = strokeColor.alpha * options.opacity;
+    const operators = [
+      setTextRenderingMode(TextRenderingMode.Outline),
+      setStrokingColor(strokeColor.color),
+      setLineWidth(options.stroke.width * 2),
+      setLineJoin(LineJoinStyle.Round),
+    ];
+    if (strokeOpacity < 1) {
+      const state = page.doc.context.obj({
+        Type: "ExtGState",
+        CA: strokeOpacity,
+      });
+      operators.push(setGraphicsState(page.node.newExtGState("GS", state)));
+    }
+    for (const run of runs) {
+      showRun(run, beginArtifact(), operators);
+    }
+    if (decorationRect) {
+      page.drawRectangle({
+        ...decorationRect,
+        borderColor: strokeColor.color,
+        borderWidth: options.stroke.width * 2,
+        borderOpacity: strokeOpacity,
+      });
+    }
+  }
+
+  // Only the first paint of a run is extracted.
+  const defaultPaints = options.fills?.length
+    ? options.fills
+    : options.color
+    ? [colorPaint(options.color)]
+    : [];
+  for (const run of runs) {
+    const color = pieces.find((piece) => piece.run === run)?.color;
+    const paints =
+      color === undefined ? defaultPaints : color ? [colorPaint(color)] : [];
+    paints.forEach((paint, index) =>
+      showRun(
+        run,
+        index === 0
+          ? beginActualText(options.runTexts[run] ?? "")
+          : beginArtifact(),
+        paintOperators(page, paint)
+      )
+    );
+  }
+  if (decorationRect) {
+    for (const paint of defaultPaints) {
+      fillPath(page, paint, [
+        rectangle(
+          decorationRect.x,
+          decorationRect.y,
+          decorationRect.width,
+          decorationRect.height
+        ),
+      ]);
+    }
+  }
+  return extents;
+}
+
+function addLinkAnnotation(
+  page: PDFPage,
+  url: string,
+  x: number,
+  top: number,
+  width: number,
+  height: number
+) {
+  const pageHeight = page.getHeight();
+  const { context } = page.doc;
+  const annotation = context.register(
+    context.obj({
+      Type: "Annot",
+      Subtype: "Link",
+      Rect: [x, pageHeight - top - height, x + width, pageHeight - top],
+      Border: [0, 0, 0],
+      A: { Type: "Action", S: "URI", URI: PDFString.of(url) },
+    })
+  );
+  page.node.addAnnot(annotation);
+}
+
+async function drawTextLayout(
+  context: VectorPdfContext,
+  page: PDFPage,
+  layout: LayoutNodeResult,
+  textLayout: TextLayoutMetadata,
+  opacity: number
+) {
+  const color = parseColor(textLayout.color);
+  const left = layout.absX + textLayout.inset.left;
+  const width = layout.width - textLayout.inset.left - textLayout.inset.right;
+  const decoration = resolveTextDecorationLine(
+    textLayout.decoration,
+    textLayout.fontFamily,
+    textLayout.fontSize
+  );
+  // Fills replace the text color; spans with a color of their own keep it.
+  const fills = await createPdfPaints(
+    context,
+    page,
+    layout.node.fills,
+    layoutFillBox(layout),
+    opacity
+  );
+
+  // Lines are placed first so the background can go underneath all of them.
+  const placedLines = [];
+  let top = layout.absY + textLayout.offsetY;
+  for (const line of textLayout.lines) {
+    const runs = toLineTextRuns(textLayout, line).map((run) =>
+      fills.length > 0 && run.color === textLayout.color
+        ? { text: run.text, font: run.font }
+        : run
+    );
+    const pieces = await resolvePdfTextPieces(
+      context,
+      runs,
+      textLayout.direction,
+      textLayout.letterSpacing,
+      toTextFont(textLayout),
+      line.wordSpacing
+    );
+    const wordSpacing = fitPdfWordSpacing(
+      pieces,
+      textLayout.letterSpacing,
+      line.wordSpacing,
+      width
+    );
+    const lineWidth = measurePdfTextLine(
+      pieces,
+      textLayout.letterSpacing,
+      wordSpacing
+    );
+    let x = left;
+    if (textLayout.textAlign === "center") {
+      x = left + (width - lineWidth) / 2;
+    } else if (textLayout.textAlign === "right") {
+      x = left + width - lineWidth;
+    }
+    placedLines.push({
+      line,
+      runs,
+      pieces,
+      wordSpacing,
+      x,
+      lineWidth,
+      top,
+    });
+    top += line.height;
+  }
+
+  if (textLayout.lineBackground) {
+    fillLineBackground(
+      page,
+      placedLines.map(({ line, x, lineWidth, top }) => ({
+        left: x,
+        right: x + lineWidth,
+        top,
+        bottom: top + line.height,
+      })),
+      textLayout.lineBackground,
+      opacity
+    );
+  }
+
+  for (const { line, runs, pieces, wordSpacing, x, top } of placedLines) {
+    const extents = drawPdfTextLine(page, pieces, {
+      x,
+      baseline: top + line.ascent,
+      letterSpacing: textLayout.letterSpacing,
+      wordSpacing,
+      runTexts: runs.map((run) => run.text),
+      color,
+      opacity,
+      fills,
+      stroke: textLayout.stroke,
+      shadows: textLayout.shadows,
+      decoration,
+    });
+
+    // Adjacent pieces of one linked run share a single annotation.
+    let linkStart = 0;
+    extents.forEach((extent, index) => {
+      const next = extents[index + 1];
+      if (next && next.run === extent.run) return;
+      const first = extents[linkStart] ?? extent;
+      linkStart = index + 1;
+      const style = textLayout.styles[line.runs[extent.run]?.style ?? 0];
+      if (!style?.link) return;
+      addLinkAnnotation(
+        page,
+        style.link,
+        first.x,
+        top,
+        extent.x + extent.width - first.x,
+        line.height
+      );
+    });
+  }
+}
+
+// The outline of a node, rounded like `drawRoundedRect`.
+function shapePathOperators(
+  page: PDFPage,
+  layout: LayoutNodeResult
+): PDFOperator[] {
+  const x = layout.absX;
+  const y = page.getHeight() - layout.absY - layout.height;
+  const { width, height } = layout;
+  const r = Math.min(layout.node.cornerRadius ?? 0, width / 2, height / 2);
+
+  if (r <= 0) {
+    return [rectangle(x, y, width, height)];
+  }
+
+  // Cubic approximation of the quadratic corners used by `drawRoundedRect`.
+  const k = r * (2 / 3);
+  return [
+    moveTo(x + r, y),
+    lineTo(x + width - r, y),
+    appendBezierCurve(x + width - r + k, y, x + width, y + r - k, x + width, y + r),
+    lineTo(x + width, y + height - r),
+    appendBezierCurve(
+      x + width,
+      y + height - r + k,
+      x + width - r + k,
+      y + height,
+      x + width - r,
+      y + height
+    ),
+    lineTo(x + r, y + height),
+    appendBezierCurve(x + r - k, y + height, x, y + height - r + k, x, y + height - r),
+    lineTo(x, y + r),
+    appendBezierCurve(x, y + r - k, x + r - k, y, x + r, y),
+    closePath(),
+  ];
+}
+
+function clipOperators(
+  page: PDFPage,
+  layout: LayoutNodeResult
+): PDFOperator[] {
+  return [
+    pushGraphicsState(),
+    ...shapePathOperators(page, layout),
+    clip(),
+    endPath(),
+  ];
+}
+
+function layoutFillBox(layout: LayoutNodeResult): FillBox {
+  return {
+    x: layout.absX,
+    y: layout.absY,
+    width: layout.width,
+    height: layout.height,
+  };
+}
+
+async function drawLayoutNode(
+  context: VectorPdfContext,
+  page: PDFPage,
+  layout: LayoutNodeResult,
+  parentOpacity: number
+) {
+  const node = layout.node;
+  const opacity = parentOpacity * (node.opacity ?? 1);
+
+  if ((node.type === "RECT" || node.type === "FRAME") && node.backgroundColor) {
+    fillRect(
+      page,
+      layout.absX,
+      layout.absY,
+      layout.width,
+      layout.height,
+      node.backgroundColor,
+      node.cornerRadius ?? 0,
+      opacity
+    );
+  }
+  if (node.type === "RECT" || node.type === "FRAME") {
+    const paints = await createPdfPaints(
+      context,
+      page,
+      node.fills,
+      layoutFillBox(layout),
+      opacity
+    );
+    for (const paint of paints) {
+      fillPath(page, paint, shapePathOperators(page, layout));
+    }
+  }
+
+  if (layout.textLayout && node.type === "TEXT") {
+    if (layout.textLayout.clip) {
+      page.pushOperators(...clipOperators(page, layout));
+    }
+    await drawTextLayout(context, page, layout, layout.textLayout, opacity);
+    if (layout.textLayout.clip) {
+      page.pushOperators(popGraphicsState());
+    }
+  }
+
+  if (node.imageUrl && node.type === "IMAGE") {
+    const image = await embedImage(context, node.imageUrl);
+    page.drawImage(image, {
+      x: layout.absX,
+      y: page.getHeight() - layout.absY - layout.height,
+      width: layout.width,
+      height: layout.height,
+      opacity,
+    });
+  }
+
+  if (node.clipsContent) {
+    page.pushOperators(...clipOperators(page, layout));
+  }
+  for (const child of layout.children) {
+    await drawLayoutNode(context, page, child, opacity);
+  }
+  if (node.clipsContent) {
+    page.pushOperators(popGraphicsState());
+  }
+}
+
+async function createVectorPdfContext(): Promise<VectorPdfContext> {
+  const doc = await PDFDocument.create();
+  doc.registerFontkit(fontkit);
+  return { doc, fonts: new Map(), images: new Map(), patternCount: 0 };
+}
+
+export async function renderLayoutsToVectorPdf(
+  pages: ScenePageLayout[]
+): Promise<Buffer> {
+  const context = await createVectorPdfContext();
+
+  for (const { layout, backgroundColor } of pages) {
+    const width = Math.ceil(layout.width);
+    const height = Math.ceil(layout.height);
+    const page = context.doc.addPage([width, height]);
+    if (!isTransparentColor(backgroundColor)) {
+      fillRect(page, 0, 0, width, height, backgroundColor, 0, 1);
+    }
+    await drawLayoutNode(context, page, layout, 1);
+  }
+
+  return Buffer.from(await context.doc.save());
+}
+
+export async function renderTextPagesToVectorPdf(
+  pages: string[][],
+  options: {
+    width: number;
+    height: number;
+    bgColor: ImageBackground;
+    textColor: string;
+    fontSize: number;
+    letterSpacing: number;
+    padding: number;
+    fontFamily: string;
+    fontCssWeight: string;
+    fallbackFamilies: FontFallbacks;
+    textDirection: "LTR" | "RTL";
+    textAlign: TextAlign;
+    // Whether the last page given ends the text, for JUSTIFY.
+    endsText: boolean;
+    effects: TextEffects;
+    lineBackground?: TextLineBackground | undefined;
+  }
+): Promise<Buffer> {
+  const context = await createVectorPdfContext();
+  const textFont: TextFont = {
+    fontFamily: options.fontFamily,
+    fontCssWeight: options.fontCssWeight,
+    fontSize: options.fontSize,
+    fallbackFamilies: options.fallbackFamilies,
+  };
+  const { metrics } = await embedFont(context, options.fontFamily);
+  const ascent = scaleFontMetric(metrics, metrics.ascent, options.fontSize);
+  const descent = scaleFontMetric(metrics, metrics.descent, options.fontSize);
+  const color = parseColor(options.textColor);
+  const lineHeight = options.fontSize * 1.5;
+  const bleed = getTextEffectsBleed(options.effects, options.lineBackground);
+  const textLeft = options.padding + bleed.left;
+  const maxTextWidth =
+    options.width - 2 * options.padding - bleed.left - bleed.right;
+
+  for (const [pageIndex, lines] of pages.entries()) {
+    const page = context.doc.addPage([options.width, options.height]);
+    if (typeof options.bgColor !== "string") {
+      const box = { x: 0, y: 0, width: options.width, height: options.height };
+      const paint = await createPdfPaint(context, page, options.bgColor, box, 1);
+      if (paint) {
+        fillPath(page, paint, [rectangle(0, 0, options.width, options.height)]);
+      }
+    } else if (!isTransparentColor(options.bgColor)) {
+      fillRect(page, 0, 0, options.width, options.height, options.bgColor, 0, 1);
+    }
+    if (!color) continue;
+
+    // Same geometry as `generateImage`: lines are vertically centered and
+    // aligned horizontally inside the padded area.
+    let middle =
+      options.height / 2 - (lines.length * lineHeight) / 2 + lineHeight / 2;
+    const placedLines = [];
+    for (const [index, line] of lines.entries()) {
+      let runs: TextRun[] = [{ text: line, font: textFont }];
+      let skiaWordSpacing = 0;
+      if (
+        shouldJustifyLine(
+          options.textAlign,
+          index,
+          lines.length,
+          options.endsText && pageIndex === pages.length - 1
+        )
+      ) {
+        ({ runs, wordSpacing: skiaWordSpacing } = justifyTextRuns(
+          textMeasureContext,
+          runs,
+          maxTextWidth,
+          options.letterSpacing,
+          options.textDirection
+        ));
+      }
+      const pieces = await resolvePdfTextPieces(
+        context,
+        runs,
+        options.textDirection,
+        options.letterSpacing,
+        textFont,
+        skiaWordSpacing
+      );
+      const wordSpacing = fitPdfWordSpacing(
+        pieces,
+        options.letterSpacing,
+        skiaWordSpacing,
+        maxTextWidth
+      );
+      const lineWidth = measurePdfTextLine(
+        pieces,
+        options.letterSpacing,
+        wordSpacing
+      );
+      const x = alignTextLine(
+        options.textAlign,
+        options.textDirection,
+        textLeft,
+        maxTextWidth,
+        lineWidth
+      );
+      placedLines.push({ runs, pieces, wordSpacing, x, lineWidth, middle });
+      middle += lineHeight;
+    }
+
+    if (options.lineBackground) {
+      fillLineBackground(
+        page,
+        placedLines.map(({ x, lineWidth, middle }) => ({
+          left: x,
+          right: x + lineWidth,
+          top: middle - lineHeight / 2,
+          bottom: middle + lineHeight / 2,
+        })),
+        options.lineBackground,
+        1
+      );
+    }
+    for (const { runs, pieces, wordSpacing, x, middle } of placedLines) {
+      drawPdfTextLine(page, pieces, {
+        x,
+        baseline: middle + (ascent + descent) / 2,
+        letterSpacing: options.letterSpacing,
+        wordSpacing,
+        runTexts: runs.map((run) => run.text),
+        color,
+        opacity: 1,
+        stroke: options.effects.stroke,
+        shadows: options.effects.shadows,
+        decoration: options.effects.decoration,
+      });
+    }
+  }
+
+  return Buffer.from(await context.doc.save());
+}
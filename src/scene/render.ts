@@ -1,23 +1,36 @@
+import { createCanvas, Path2D, type SKRSContext2D } from "@napi-rs/canvas";
+import { fetchImageAsset } from "./assets.js";
 import {
-  createCanvas,
-  loadImage,
-  type SKRSContext2D,
-} from "@napi-rs/canvas";
-import { drawTextWithLetterSpacing } from "./text.js";
+  encodeCanvas,
+  isTransparentColor,
+  type ImageEncodingOptions,
+} from "./encode.js";
+import { applyFillsAsFillStyle, paintFills, type FillBox } from "./fills.js";
+import { getTextLineBoxes, toLineTextRuns } from "./layout.js";
+import {
+  buildLineBackgroundPath,
+  drawTextWithLetterSpacing,
+  measureTextAscent,
+  resolveTextDecorationLine,
+  type TextEffects,
+} from "./text.js";
 import { type LayoutNodeResult } from "./types.js";
 
 export async function renderLayoutToImage(
   layout: LayoutNodeResult,
-  backgroundColor?: string
+  backgroundColor?: string,
+  encoding?: ImageEncodingOptions
 ): Promise<Buffer> {
   const width = Math.ceil(layout.width);
   const height = Math.ceil(layout.height);
   const canvas = createCanvas(width, height);
   const ctx = canvas.getContext("2d");
-  ctx.fillStyle = backgroundColor ?? "#ffffff";
-  ctx.fillRect(0, 0, width, height);
+  if (!isTransparentColor(backgroundColor)) {
+    ctx.fillStyle = backgroundColor ?? "#ffffff";
+    ctx.fillRect(0, 0, width, height);
+  }
   await paintLayoutNode(ctx, layout);
-  return canvas.encode("png");
+  return encodeCanvas(canvas, encoding);
 }
 
 export async function paintLayoutNode(
@@ -46,38 +59,105 @@ export async function paintLayoutNode(
     }
   };
 
+  const box: FillBox = {
+    x: layout.absX,
+    y: layout.absY,
+    width: layout.width,
+    height: layout.height,
+  };
   if (node.type === "RECT" || node.type === "FRAME") {
     drawRect();
+    if (node.fills.length > 0) {
+      ctx.save();
+      if (node.cornerRadius && node.cornerRadius > 0) {
+        drawRoundedRect(
+          ctx,
+          layout.absX,
+          layout.absY,
+          layout.width,
+          layout.height,
+          node.cornerRadius
+        );
+      } else {
+        ctx.beginPath();
+        ctx.rect(layout.absX, layout.absY, layout.width, layout.height);
+      }
+      ctx.clip();
+      await paintFills(ctx, node.fills, box);
+      ctx.restore();
+    }
   }
 
   if (layout.textLayout && node.type === "TEXT") {
+    if (layout.textLayout.clip) {
+      ctx.beginPath();
+      ctx.rect(layout.absX, layout.absY, layout.width, layout.height);
+      ctx.clip();
+    }
+    const { lineBackground } = layout.textLayout;
+    if (lineBackground) {
+      ctx.fillStyle = lineBackground.color;
+      ctx.fill(
+        new Path2D(
+          buildLineBackgroundPath(
+            getTextLineBoxes(layout, layout.textLayout),
+            lineBackground
+          )
+        )
+      );
+    }
     ctx.font = layout.textLayout.font;
     ctx.fillStyle = layout.textLayout.color;
+    // Fills replace the text color; spans with a color of their own keep it.
+    const textColor = layout.textLayout.color;
+    const textFills = node.fills.length > 0;
+    if (textFills) {
+      await applyFillsAsFillStyle(ctx, node.fills, box);
+    }
     ctx.textAlign = layout.textLayout.textAlign;
     ctx.textBaseline = "top";
     (ctx as any).direction = layout.textLayout.direction.toLowerCase();
-    let textX = layout.absX;
+    const { inset } = layout.textLayout;
+    let textX = layout.absX + inset.left;
     if (layout.textLayout.textAlign === "center") {
-      textX = layout.absX + layout.width / 2;
+      textX += (layout.width - inset.left - inset.right) / 2;
     } else if (layout.textLayout.textAlign === "right") {
-      textX = layout.absX + layout.width;
+      textX = layout.absX + layout.width - inset.right;
     }
-    let textY = layout.absY;
+    const effects: TextEffects = {
+      stroke: layout.textLayout.stroke,
+      shadows: layout.textLayout.shadows,
+      decoration: resolveTextDecorationLine(
+        layout.textLayout.decoration,
+        layout.textLayout.fontFamily,
+        layout.textLayout.fontSize
+      ),
+    };
+    const baseAscent = measureTextAscent(ctx, layout.textLayout.font);
+    let textY = layout.absY + layout.textLayout.offsetY;
     for (const line of layout.textLayout.lines) {
+      const runs = toLineTextRuns(layout.textLayout, line).map((run) =>
+        textFills && run.color === textColor
+          ? { text: run.text, font: run.font }
+          : run
+      );
       drawTextWithLetterSpacing(
         ctx,
-        line,
+        runs,
         textX,
-        textY,
+        textY + line.ascent - baseAscent,
         layout.textLayout.letterSpacing,
-        layout.textLayout.direction
+        layout.textLayout.direction,
+        undefined,
+        line.wordSpacing,
+        effects
       );
-      textY += layout.textLayout.lineHeight;
+      textY += line.height;
     }
   }
 
   if (node.imageUrl && node.type === "IMAGE") {
-    const image = await loadImage(node.imageUrl);
+    const { image } = await fetchImageAsset(node.imageUrl);
     ctx.drawImage(image, layout.absX, layout.absY, layout.width, layout.height);
   }
 
@@ -0,0 +1,112 @@
+import { createCanvas } from "@napi-rs/canvas";
+import { buildFontStack } from "../config/fonts.js";
+import { encodeCanvas, type ImageEncodingOptions } from "./encode.js";
+import {
+  detectTextDirection,
+  drawTextWithLetterSpacing,
+  wrapTextLTR,
+  wrapTextRTL,
+} from "./text.js";
+
+export const SPECIMEN_WIDTH = 1200;
+
+const SPECIMEN_PADDING = 48;
+
+const SPECIMEN_BG_COLOR = "#ffffff";
+
+const SPECIMEN_TEXT_COLOR = "#181A20";
+
+const SPECIMEN_CAPTION_COLOR = "#6b7280";
+
+export interface FontSpecimenOptions {
+  fontFamily: string;
+  fontCssWeight: string;
+  caption: string;
+  samples: string[];
+  fontSize: number;
+  encoding?: ImageEncodingOptions;
+}
+
+type SpecimenLine = {
+  text: string;
+  direction: "LTR" | "RTL";
+  fontSize: number;
+  color: string;
+};
+
+// Renders a caption followed by the sample paragraphs, each wrapped to the
+// specimen width. The image height grows with the number of wrapped lines.
+export async function renderFontSpecimen(
+  options: FontSpecimenOptions
+): Promise<Buffer> {
+  const maxTextWidth = SPECIMEN_WIDTH - 2 * SPECIMEN_PADDING;
+  const captionSize = Math.max(Math.round(options.fontSize * 0.4), 16);
+  const measureCtx = createCanvas(1, 1).getContext("2d");
+  measureCtx.font = buildFontStack(
+    options.fontCssWeight,
+    options.fontSize,
+    options.fontFamily
+  );
+
+  const lines: SpecimenLine[] = [
+    {
+      text: options.caption,
+      direction: "LTR",
+      fontSize: captionSize,
+      color: SPECIMEN_CAPTION_COLOR,
+    },
+  ];
+  for (const sample of options.samples) {
+    const direction = detectTextDirection(sample);
+    const wrapped =
+      direction === "RTL"
+        ? wrapTextRTL(measureCtx, sample, maxTextWidth, 0)
+        : wrapTextLTR(measureCtx, sample, maxTextWidth, 0);
+    for (const line of wrapped) {
+      lines.push({
+        text: line,
+        direction,
+        fontSize: options.fontSize,
+        color: SPECIMEN_TEXT_COLOR,
+      });
+    }
+  }
+
+  const lineHeights = lines.map((line) => line.fontSize * 1.5);
+  const height = Math.ceil(
+    2 * SPECIMEN_PADDING +
+      lineHeights.reduce((total, lineHeight) => total + lineHeight, 0)
+  );
+  const canvas = createCanvas(SPECIMEN_WIDTH, height);
+  const ctx = canvas.getContext("2d");
+  ctx.fillStyle = SPECIMEN_BG_COLOR;
+  ctx.fillRect(0, 0, SPECIMEN_WIDTH, height);
+  ctx.textBaseline = "middle";
+
+  let y = SPECIMEN_PADDING;
+  lines.forEach((line, index) => {
+    const lineHeight = lineHeights[index] ?? 0;
+    ctx.font = buildFontStack(
+      options.fontCssWeight,
+      line.fontSize,
+      options.fontFamily
+    );
+    ctx.fillStyle = line.color;
+    ctx.textAlign = line.direction === "RTL" ? "right" : "left";
+    const x =
+      line.direction === "RTL"
+        ? SPECIMEN_WIDTH - SPECIMEN_PADDING
+        : SPECIMEN_PADDING;
+    drawTextWithLetterSpacing(
+      ctx,
+      line.text,
+      x,
+      y + lineHeight / 2,
+      0,
+      line.direction
+    );
+    y += lineHeight;
+  });
+
+  return encodeCanvas(canvas, options.encoding);
+}
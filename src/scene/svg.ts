@@ -0,0 +1,479 @@
+import { readFile } from "fs/promises";
+import { extname } from "path";
+import {
+  buildFontFamilyList,
+  getRegisteredFontPath,
+  listFallbackFamilies,
+} from "../config/fonts.js";
+import { fetchImageAsset } from "./assets.js";
+import { isTransparentColor } from "./encode.js";
+import {
+  getLinearGradientLine,
+  getRadialGradientCircle,
+  type FillBox,
+  type SceneFill,
+} from "./fills.js";
+import { getTextLineBoxes } from "./layout.js";
+import { buildLineBackgroundPath } from "./text.js";
+import {
+  type LayoutNodeResult,
+  type TextLayoutMetadata,
+  type TextLineRun,
+} from "./types.js";
+
+const FONT_FORMATS: Record<string, { format: string; mimeType: string }> = {
+  ".woff2": { format: "woff2", mimeType: "font/woff2" },
+  ".woff": { format: "woff", mimeType: "font/woff" },
+  ".ttf": { format: "truetype", mimeType: "font/ttf" },
+  ".otf": { format: "opentype", mimeType: "font/otf" },
+};
+
+interface SvgRenderContext {
+  defs: string[];
+  fontFamilies: Map<string, string>;
+  clipCounter: number;
+  filterCounter: number;
+  fillCounter: number;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function rectAttributes(layout: LayoutNodeResult): string {
+  const radius = layout.node.cornerRadius
+    ? Math.min(layout.node.cornerRadius, layout.width / 2, layout.height / 2)
+    : 0;
+  const attributes = [
+    `x="${formatNumber(layout.absX)}"`,
+    `y="${formatNumber(layout.absY)}"`,
+    `width="${formatNumber(layout.width)}"`,
+    `height="${formatNumber(layout.height)}"`,
+  ];
+  if (radius > 0) {
+    attributes.push(`rx="${formatNumber(radius)}"`, `ry="${formatNumber(radius)}"`);
+  }
+  return attributes.join(" ");
+}
+
+function layoutBox(layout: LayoutNodeResult): FillBox {
+  return {
+    x: layout.absX,
+    y: layout.absY,
+    width: layout.width,
+    height: layout.height,
+  };
+}
+
+function resolveTextAnchor(textLayout: TextLayoutMetadata): string {
+  if (textLayout.textAlign === "center") return "middle";
+  const alignsToEnd =
+    textLayout.direction === "RTL"
+      ? textLayout.textAlign === "left"
+      : textLayout.textAlign === "right";
+  return alignsToEnd ? "end" : "start";
+}
+
+// Span runs only restate the attributes that differ from the node's style.
+function renderTextRun(textLayout: TextLayoutMetadata, run: TextLineRun) {
+  const style = textLayout.styles[run.style];
+  const text = escapeXml(run.text);
+  if (!style || run.style === 0) return text;
+
+  const attributes: string[] = [];
+  if (style.fontFamily !== textLayout.fontFamily) {
+    attributes.push(
+      `font-family="${escapeXml(
+        buildFontFamilyList(style.fontFamily, style.fallbackFamilies)
+      )}"`
+    );
+  }
+  if (style.fontSize !== textLayout.fontSize) {
+    attributes.push(`font-size="${formatNumber(style.fontSize)}"`);
+  }
+  if (style.fontCssWeight !== textLayout.fontCssWeight) {
+    attributes.push(`font-weight="${style.fontCssWeight}"`);
+  }
+  if (style.color !== textLayout.color) {
+    attributes.push(`fill="${escapeXml(style.color)}"`);
+  }
+  const span = attributes.length
+    ? `<tspan ${attributes.join(" ")}>${text}</tspan>`
+    : text;
+  return style.link
+    ? `<a href="${escapeXml(style.link)}">${span}</a>`
+    : span;
+}
+
+// Canvas shadow blur is twice the Gaussian standard deviation. The first
+// shadow ends up on top, as in CSS.
+function renderShadowFilter(
+  id: string,
+  layout: LayoutNodeResult,
+  textLayout: TextLayoutMetadata
+): string {
+  const primitives = textLayout.shadows.map(
+    (shadow, index) =>
+      `<feGaussianBlur in="SourceAlpha" stdDeviation="${formatNumber(
+        shadow.blur / 2
+      )}"/>` +
+      `<feOffset dx="${formatNumber(shadow.offsetX)}" dy="${formatNumber(
+        shadow.offsetY
+      )}" result="offset-${index}"/>` +
+      `<feFlood flood-color="${escapeXml(shadow.color)}"/>` +
+      `<feComposite in2="offset-${index}" operator="in" result="shadow-${index}"/>`
+  );
+  const merged = textLayout.shadows
+    .map((_, index) => `<feMergeNode in="shadow-${index}"/>`)
+    .reverse()
+    .join("");
+  return (
+    `<filter id="${id}" filterUnits="userSpaceOnUse" x="${formatNumber(
+      layout.absX
+    )}" y="${formatNumber(layout.absY)}" width="${formatNumber(
+      layout.width
+    )}" height="${formatNumber(layout.height)}">` +
+    primitives.join("") +
+    `<feMerge>${merged}<feMergeNode in="SourceGraphic"/></feMerge></filter>`
+  );
+}
+
+function renderGradientStops(
+  stops: { position: number; color: string }[],
+  opacity: number
+) {
+  const stopOpacity =
+    opacity < 1 ? ` stop-opacity="${formatNumber(opacity)}"` : "";
+  return stops
+    .map(
+      (stop) =>
+        `<stop offset="${formatNumber(stop.position)}" stop-color="${escapeXml(
+          stop.color
+        )}"${stopOpacity}/>`
+    )
+    .join("");
+}
+
+// A fill as an SVG paint: its color, or a reference to a gradient or pattern
+// added to the defs. The fill's opacity is part of the paint, so spans with
+// their own color are not affected by it.
+async function renderFillPaint(
+  fill: SceneFill,
+  box: FillBox,
+  context: SvgRenderContext
+): Promise<string> {
+  if (fill.type === "SOLID" && fill.opacity >= 1) {
+    return escapeXml(fill.color);
+  }
+  context.fillCounter += 1;
+  const id = `fill-${context.fillCounter}`;
+  if (fill.type === "SOLID") {
+    context.defs.push(
+      `<linearGradient id="${id}">${renderGradientStops(
+        [{ position: 0, color: fill.color }],
+        fill.opacity
+      )}</linearGradient>`
+    );
+  } else if (fill.type === "GRADIENT_LINEAR") {
+    const { x0, y0, x1, y1 } = getLinearGradientLine(box, fill.angle);
+    context.defs.push(
+      `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${formatNumber(
+        x0
+      )}" y1="${formatNumber(y0)}" x2="${formatNumber(x1)}" y2="${formatNumber(
+        y1
+      )}">${renderGradientStops(fill.stops, fill.opacity)}</linearGradient>`
+    );
+  } else if (fill.type === "GRADIENT_RADIAL") {
+    const { cx, cy, r } = getRadialGradientCircle(box);
+    context.defs.push(
+      `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${formatNumber(
+        cx
+      )}" cy="${formatNumber(cy)}" r="${formatNumber(r)}">${renderGradientStops(
+        fill.stops,
+        fill.opacity
+      )}</radialGradient>`
+    );
+  } else {
+    // TILE repeats the image at its own size from the top left corner; FILL
+    // and FIT use a single tile the size of the box.
+    const { href, image } = await resolveImageHref(fill.imageUrl);
+    const tile =
+      fill.scaleMode === "TILE"
+        ? { width: image.width, height: image.height }
+        : { width: box.width, height: box.height };
+    const aspect =
+      fill.scaleMode === "TILE"
+        ? "none"
+        : fill.scaleMode === "FIT"
+        ? "xMidYMid meet"
+        : "xMidYMid slice";
+    const opacity =
+      fill.opacity < 1 ? ` opacity="${formatNumber(fill.opacity)}"` : "";
+    context.defs.push(
+      `<pattern id="${id}" patternUnits="userSpaceOnUse" x="${formatNumber(
+        box.x
+      )}" y="${formatNumber(box.y)}" width="${formatNumber(
+        tile.width
+      )}" height="${formatNumber(tile.height)}"><image width="${formatNumber(
+        tile.width
+      )}" height="${formatNumber(tile.height)}" href="${escapeXml(
+        href
+      )}" preserveAspectRatio="${aspect}"${opacity}/></pattern>`
+    );
+  }
+  return `url(#${id})`;
+}
+
+// Several fills are stacked inside one pattern the size of the box, so text
+// can use them as a single paint.
+async function renderFillsPaint(
+  fills: SceneFill[],
+  box: FillBox,
+  context: SvgRenderContext
+): Promise<string> {
+  const [first] = fills;
+  if (first && fills.length === 1) {
+    return renderFillPaint(first, box, context);
+  }
+  const tile = { x: 0, y: 0, width: box.width, height: box.height };
+  const layers: string[] = [];
+  for (const fill of fills) {
+    layers.push(
+      `<rect width="${formatNumber(box.width)}" height="${formatNumber(
+        box.height
+      )}" fill="${await renderFillPaint(fill, tile, context)}"/>`
+    );
+  }
+  context.fillCounter += 1;
+  const id = `fill-${context.fillCounter}`;
+  context.defs.push(
+    `<pattern id="${id}" patternUnits="userSpaceOnUse" x="${formatNumber(
+      box.x
+    )}" y="${formatNumber(box.y)}" width="${formatNumber(
+      box.width
+    )}" height="${formatNumber(box.height)}">${layers.join("")}</pattern>`
+  );
+  return `url(#${id})`;
+}
+
+async function renderTextNode(
+  layout: LayoutNodeResult,
+  textLayout: TextLayoutMetadata,
+  context: SvgRenderContext
+): Promise<string> {
+  for (const style of textLayout.styles) {
+    context.fontFamilies.set(style.fontFamily, style.fontCssWeight);
+    for (const family of listFallbackFamilies(style.fallbackFamilies)) {
+      context.fontFamilies.set(family, style.fontCssWeight);
+    }
+  }
+
+  const { inset } = textLayout;
+  let textX = layout.absX + inset.left;
+  if (textLayout.textAlign === "center") {
+    textX += (layout.width - inset.left - inset.right) / 2;
+  } else if (textLayout.textAlign === "right") {
+    textX = layout.absX + layout.width - inset.right;
+  }
+
+  const attributes = [
+    `font-family="${escapeXml(
+      buildFontFamilyList(textLayout.fontFamily, textLayout.fallbackFamilies)
+    )}"`,
+    `font-size="${formatNumber(textLayout.fontSize)}"`,
+    `font-weight="${textLayout.fontCssWeight}"`,
+    `fill="${
+      layout.node.fills.length > 0
+        ? await renderFillsPaint(layout.node.fills, layoutBox(layout), context)
+        : escapeXml(textLayout.color)
+    }"`,
+    `text-anchor="${resolveTextAnchor(textLayout)}"`,
+    `direction="${textLayout.direction.toLowerCase()}"`,
+    `xml:space="preserve"`,
+  ];
+  if (textLayout.letterSpacing) {
+    attributes.push(`letter-spacing="${formatNumber(textLayout.letterSpacing)}"`);
+  }
+  if (textLayout.stroke) {
+    attributes.push(
+      `stroke="${escapeXml(textLayout.stroke.color)}"`,
+      `stroke-width="${formatNumber(textLayout.stroke.width * 2)}"`,
+      `stroke-linejoin="round"`,
+      `paint-order="stroke"`
+    );
+  }
+  if (textLayout.decoration !== "NONE") {
+    attributes.push(
+      `text-decoration="${textLayout.decoration.toLowerCase()}"`
+    );
+  }
+  if (textLayout.shadows.length > 0) {
+    context.filterCounter += 1;
+    const filterId = `shadow-${context.filterCounter}`;
+    context.defs.push(renderShadowFilter(filterId, layout, textLayout));
+    attributes.push(`filter="url(#${filterId})"`);
+  }
+  let clipAttribute = "";
+  if (textLayout.clip) {
+    context.clipCounter += 1;
+    const clipId = `clip-${context.clipCounter}`;
+    context.defs.push(
+      `<clipPath id="${clipId}"><rect ${rectAttributes(layout)}/></clipPath>`
+    );
+    clipAttribute = ` clip-path="url(#${clipId})"`;
+  }
+
+  let top = layout.absY + textLayout.offsetY;
+  const lines = textLayout.lines.map((line) => {
+    const content = line.runs
+      .map((run) => renderTextRun(textLayout, run))
+      .join("");
+    const wordSpacing = line.wordSpacing
+      ? ` word-spacing="${formatNumber(line.wordSpacing)}"`
+      : "";
+    const element = `<text x="${formatNumber(textX)}" y="${formatNumber(
+      top + line.ascent
+    )}"${wordSpacing}>${content}</text>`;
+    top += line.height;
+    return element;
+  });
+  const text = `<g ${attributes.join(" ")}${clipAttribute}>${lines.join(
+    ""
+  )}</g>`;
+  if (!textLayout.lineBackground) return text;
+  return (
+    `<path d="${buildLineBackgroundPath(
+      getTextLineBoxes(layout, textLayout),
+      textLayout.lineBackground
+    )}" fill="${escapeXml(textLayout.lineBackground.color)}"${clipAttribute}/>` +
+    text
+  );
+}
+
+async function resolveImageHref(imageUrl: string) {
+  const asset = await fetchImageAsset(imageUrl);
+  return {
+    href: `data:${asset.contentType};base64,${asset.buffer.toString("base64")}`,
+    image: asset.image,
+  };
+}
+
+async function renderSvgNode(
+  layout: LayoutNodeResult,
+  context: SvgRenderContext
+): Promise<string> {
+  const node = layout.node;
+  const parts: string[] = [];
+
+  if ((node.type === "RECT" || node.type === "FRAME") && node.backgroundColor) {
+    parts.push(
+      `<rect ${rectAttributes(layout)} fill="${escapeXml(node.backgroundColor)}"/>`
+    );
+  }
+
+  if (node.type === "RECT" || node.type === "FRAME") {
+    for (const fill of node.fills) {
+      parts.push(
+        `<rect ${rectAttributes(layout)} fill="${await renderFillPaint(
+          fill,
+          layoutBox(layout),
+          context
+        )}"/>`
+      );
+    }
+  }
+
+  if (layout.textLayout && node.type === "TEXT") {
+    parts.push(await renderTextNode(layout, layout.textLayout, context));
+  }
+
+  if (node.imageUrl && node.type === "IMAGE") {
+    const { href } = await resolveImageHref(node.imageUrl);
+    parts.push(
+      `<image ${rectAttributes(layout)} href="${escapeXml(
+        href
+      )}" preserveAspectRatio="none"/>`
+    );
+  }
+
+  const children: string[] = [];
+  for (const child of layout.children) {
+    children.push(await renderSvgNode(child, context));
+  }
+
+  if (node.clipsContent) {
+    context.clipCounter += 1;
+    const clipId = `clip-${context.clipCounter}`;
+    context.defs.push(
+      `<clipPath id="${clipId}"><rect ${rectAttributes(layout)}/></clipPath>`
+    );
+    parts.push(`<g clip-path="url(#${clipId})">${children.join("")}</g>`);
+  } else {
+    parts.push(...children);
+  }
+
+  const opacity = node.opacity ?? 1;
+  return opacity < 1
+    ? `<g opacity="${formatNumber(opacity)}">${parts.join("")}</g>`
+    : parts.join("");
+}
+
+async function buildFontFaces(fontFamilies: Map<string, string>) {
+  const rules: string[] = [];
+  for (const [fontFamily, fontCssWeight] of fontFamilies) {
+    const fontPath = getRegisteredFontPath(fontFamily);
+    if (!fontPath) continue;
+    const fontFormat = FONT_FORMATS[extname(fontPath).toLowerCase()];
+    if (!fontFormat) continue;
+    const data = (await readFile(fontPath)).toString("base64");
+    rules.push(
+      `@font-face{font-family:"${fontFamily}";font-weight:${fontCssWeight};src:url(data:${fontFormat.mimeType};base64,${data}) format("${fontFormat.format}");}`
+    );
+  }
+  return rules;
+}
+
+export async function renderLayoutToSvg(
+  layout: LayoutNodeResult,
+  backgroundColor?: string
+): Promise<Buffer> {
+  const width = Math.ceil(layout.width);
+  const height = Math.ceil(layout.height);
+  const context: SvgRenderContext = {
+    defs: [],
+    fontFamilies: new Map(),
+    clipCounter: 0,
+    filterCounter: 0,
+    fillCounter: 0,
+  };
+
+  const body = await renderSvgNode(layout, context);
+  const fontFaces = await buildFontFaces(context.fontFamilies);
+  const defs = [
+    ...(fontFaces.length ? [`<style>${fontFaces.join("")}</style>`] : []),
+    ...context.defs,
+  ];
+  const background = isTransparentColor(backgroundColor)
+    ? ""
+    : `<rect width="${width}" height="${height}" fill="${escapeXml(
+        backgroundColor ?? "#ffffff"
+      )}"/>`;
+
+  const svg =
+    `<?xml version="1.0" encoding="UTF-8"?>` +
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    (defs.length ? `<defs>${defs.join("")}</defs>` : "") +
+    background +
+    body +
+    `</svg>`;
+  return Buffer.from(svg, "utf-8");
+}
@@ -0,0 +1,153 @@
+import { SceneSchemaError, SceneValidationError } from "../errors.js";
+import { type SceneNodeInput } from "./types.js";
+import { validateScenePages } from "./validate.js";
+
+const TEMPLATE_PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const RESERVED_PLACEHOLDERS = new Set(["pageNumber", "pageCount"]);
+const TEMPLATE_FIELDS = ["text", "imageUrl", "backgroundColor"] as const;
+const FILL_TEMPLATE_FIELDS = ["color", "imageUrl"] as const;
+// Issue paths of the fields above, which may still hold placeholders.
+const TEMPLATE_ISSUE_PATH_PATTERN =
+  /(?:\.(?:text|imageUrl|backgroundColor)|\.fills\[\d+\](?:\.stops\[\d+\])?\.color)$/;
+
+export type TemplateData = Record<string, unknown>;
+
+interface TemplateRoot {
+  path: string;
+  node: SceneNodeInput;
+}
+
+function lookupTemplateValue(data: TemplateData, path: string): unknown {
+  let current: unknown = data;
+  for (const segment of path.split(".")) {
+    if (!current || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function fillPlaceholders(
+  value: string,
+  data: TemplateData,
+  missing: Set<string>
+): string {
+  return value.replace(TEMPLATE_PLACEHOLDER_PATTERN, (match, key: string) => {
+    if (RESERVED_PLACEHOLDERS.has(key)) {
+      return match;
+    }
+    const resolved = lookupTemplateValue(data, key);
+    if (
+      typeof resolved === "string" ||
+      typeof resolved === "number" ||
+      typeof resolved === "boolean"
+    ) {
+      return String(resolved);
+    }
+    missing.add(key);
+    return match;
+  });
+}
+
+// Fills are not validated yet, so anything that is not an object is left
+// for validation to report.
+function fillSceneFill(
+  fill: unknown,
+  data: TemplateData,
+  missing: Set<string>
+) {
+  if (!fill || typeof fill !== "object") {
+    return;
+  }
+  const entry = fill as Record<string, unknown>;
+  for (const field of FILL_TEMPLATE_FIELDS) {
+    const value = entry[field];
+    if (typeof value === "string") {
+      entry[field] = fillPlaceholders(value, data, missing);
+    }
+  }
+  if (Array.isArray(entry.stops)) {
+    entry.stops.forEach((stop) => fillSceneFill(stop, data, missing));
+  }
+}
+
+function fillSceneNode(
+  node: SceneNodeInput,
+  data: TemplateData,
+  missing: Set<string>
+) {
+  for (const field of TEMPLATE_FIELDS) {
+    const value = node[field];
+    if (typeof value === "string") {
+      node[field] = fillPlaceholders(value, data, missing);
+    }
+  }
+  if (Array.isArray(node.spans)) {
+    for (const span of node.spans) {
+      if (span && typeof span.text === "string") {
+        span.text = fillPlaceholders(span.text, data, missing);
+      }
+    }
+  }
+  if (Array.isArray(node.fills)) {
+    node.fills.forEach((fill) => fillSceneFill(fill, data, missing));
+  }
+  if (Array.isArray(node.children)) {
+    node.children.forEach((child) => fillSceneNode(child, data, missing));
+  }
+}
+
+export function applyTemplateData(
+  nodes: SceneNodeInput[],
+  data: TemplateData
+): SceneNodeInput[] {
+  const missing = new Set<string>();
+  const filled = nodes.map((node) => {
+    const copy: SceneNodeInput = JSON.parse(JSON.stringify(node));
+    fillSceneNode(copy, data, missing);
+    return copy;
+  });
+  if (missing.size > 0) {
+    throw new SceneValidationError(
+      `Missing template data for: ${Array.from(missing).join(", ")}.`
+    );
+  }
+  return filled;
+}
+
+function readIssueValue(node: unknown, path: string): unknown {
+  let current = node;
+  for (const [, key, index] of path.matchAll(/\.([^.[\]]+)|\[(\d+)\]/g)) {
+    if (!current || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key ?? index ?? ""];
+  }
+  return current;
+}
+
+// Runs the strict scene validation on a stored template. Values that still
+// contain placeholders are only known at render time, so their issues are
+// left for validation of the filled scene.
+export function assertValidTemplatePages(
+  pages: TemplateRoot[],
+  master: TemplateRoot[]
+) {
+  const roots = [...pages, ...master];
+  const issues = validateScenePages(pages, master).filter((issue) => {
+    if (!TEMPLATE_ISSUE_PATH_PATTERN.test(issue.path)) {
+      return true;
+    }
+    const root = roots.find(({ path }) => issue.path.startsWith(`${path}.`));
+    const value =
+      root && readIssueValue(root.node, issue.path.slice(root.path.length));
+    return !(
+      typeof value === "string" &&
+      value.search(TEMPLATE_PLACEHOLDER_PATTERN) >= 0
+    );
+  });
+  if (issues.length > 0) {
+    throw new SceneSchemaError(issues);
+  }
+}
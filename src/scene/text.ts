@@ -1,93 +1,939 @@
 // @ts-ignore
 import reshaper from "arabic-persian-reshaper";
-import { SceneNodeInput } from "./types.js";
+import bidiFactory from "bidi-js";
+import createHyphenator from "hyphen";
+import enUsPatterns from "hyphen/patterns/en-us.js";
+import {
+  buildFontStack,
+  fontHasGlyph,
+  getFontDecorationMetrics,
+  type FontFallbacks,
+} from "../config/fonts.js";
+import { detectCharScript } from "../config/scripts.js";
 
-const RTL_CHAR_PATTERN =
-  /[\u0590-\u05FF\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
+const bidi = bidiFactory();
+
+export interface TextFont {
+  fontFamily: string;
+  fontCssWeight: string;
+  fontSize: number;
+  fallbackFamilies: FontFallbacks;
+}
+
+export interface TextFontRun {
+  text: string;
+  fontFamily: string;
+}
+
+// Picks a font per character: the primary family when it has the glyph,
+// otherwise the first fallback declared for the character's script.
+// Script-neutral characters stay with the previous run when it covers them.
+export function splitTextByFont(
+  text: string,
+  fontFamily: string,
+  fallbacks: FontFallbacks
+): TextFontRun[] {
+  const runs: TextFontRun[] = [];
+  let current: TextFontRun | undefined;
+  for (const char of text) {
+    const codePoint = char.codePointAt(0) ?? 0;
+    const script = detectCharScript(char);
+    const candidates = script
+      ? [fontFamily, ...(fallbacks[script] ?? [])]
+      : [current?.fontFamily ?? fontFamily, fontFamily];
+    const family =
+      candidates.find((candidate) => fontHasGlyph(candidate, codePoint)) ??
+      fontFamily;
+    if (current && current.fontFamily === family) {
+      current.text += char;
+    } else {
+      current = { text: char, fontFamily: family };
+      runs.push(current);
+    }
+  }
+  return runs;
+}
+
+// A stretch of one line in a single style. Without `font` the renderer's
+// current font is used.
+export interface TextRun {
+  text: string;
+  font?: TextFont | undefined;
+  color?: string | undefined;
+}
+
+export interface TextPiece {
+  // Logical order; drawn as one shaped run in `direction`.
+  text: string;
+  direction: "LTR" | "RTL";
+  fontFamily?: string | undefined;
+  // Index of the `TextRun` the piece was cut from.
+  run: number;
+  // Offset in the line where the piece's level run starts. Pieces of one
+  // level run are next to each other, reversed when it is right-to-left.
+  levelStart: number;
+}
+
+// Keeps the parts of `runs` between two UTF-16 offsets of their joined text.
+export function sliceTextRuns<T extends TextRun>(
+  runs: T[],
+  start: number,
+  end: number
+): T[] {
+  const sliced: T[] = [];
+  let offset = 0;
+  for (const run of runs) {
+    const runEnd = offset + run.text.length;
+    const from = Math.max(start, offset);
+    const to = Math.min(end, runEnd);
+    if (from < to) {
+      sliced.push({ ...run, text: run.text.slice(from - offset, to - offset) });
+    }
+    offset = runEnd;
+  }
+  return sliced;
+}
+
+function toTextRuns(text: string | TextRun[], textFont?: TextFont): TextRun[] {
+  return typeof text === "string" ? [{ text, font: textFont }] : text;
+}
+
+type JoiningType = "D" | "R" | "C" | "T" | "U";
+
+const TATWEEL = "\u0640";
+
+const RIGHT_JOINING_LETTERS = new Set(
+  Array.from("آأؤإاةدذرزژوۀەٱٲٳٵٶٷڈډڊڋڌڍڎڏڐڑڒړڔڕږڗڙۃۄۅۆۇۈۉۊۋۍۏےۓ")
+);
+
+const DUAL_JOINING_PATTERN =
+  /[\u0620-\u064A\u066E-\u06D3\u06FA-\u06FC\u06FF\u0750-\u077F\u08A0-\u08C9]/;
+
+const graphemeSegmenter = new Intl.Segmenter(undefined, {
+  granularity: "grapheme",
+});
+
+// Simplified ArabicShaping.txt joining types: D(ual), R(ight), C(ausing),
+// T(ransparent) and U(n-joining).
+function getJoiningType(char: string): JoiningType {
+  if (char === TATWEEL || char === "\u200D") return "C";
+  if (char !== "\u200C" && /[\p{Mn}\p{Me}\p{Cf}]/u.test(char)) return "T";
+  if (RIGHT_JOINING_LETTERS.has(char)) return "R";
+  if (char !== "\u0621" && DUAL_JOINING_PATTERN.test(char)) return "D";
+  return "U";
+}
+
+function getClusterJoiningType(cluster: string): JoiningType {
+  for (const char of cluster) {
+    const type = getJoiningType(char);
+    if (type !== "T") return type;
+  }
+  return "U";
+}
+
+function joinsCursively(previous: string, next: string) {
+  const left = getClusterJoiningType(previous);
+  const right = getClusterJoiningType(next);
+  return (
+    (left === "D" || left === "C") &&
+    (right === "D" || right === "R" || right === "C")
+  );
+}
+
+// Resolves embedding levels with `direction` as the paragraph base level
+// (UAX #9) and returns the level runs of one line in visual order.
+function splitBidiRuns(line: string, direction: "LTR" | "RTL") {
+  const baseLevel = direction === "RTL" ? 1 : 0;
+  const { levels } = bidi.getEmbeddingLevels(
+    line,
+    direction === "RTL" ? "rtl" : "ltr"
+  );
+  const chars = Array.from(line);
+  let unit = 0;
+  const charLevels = chars.map((char) => {
+    const level = levels[unit] ?? baseLevel;
+    unit += char.length;
+    return level;
+  });
+  // L1: trailing whitespace takes the paragraph level.
+  for (
+    let index = chars.length - 1;
+    index >= 0 && /\s/.test(chars[index] ?? "");
+    index--
+  ) {
+    charLevels[index] = baseLevel;
+  }
+
+  const runs: { text: string; level: number; start: number }[] = [];
+  let offset = 0;
+  chars.forEach((char, index) => {
+    const level = charLevels[index] ?? baseLevel;
+    const last = runs[runs.length - 1];
+    if (last && last.level === level) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, level, start: offset });
+    }
+    offset += char.length;
+  });
+
+  // L2: from the highest level down to the lowest odd level, reverse every
+  // contiguous sequence of runs at that level or higher.
+  const maxLevel = Math.max(baseLevel, ...runs.map((run) => run.level));
+  const minLevel = Math.min(baseLevel, ...runs.map((run) => run.level));
+  const lowestOddLevel = minLevel % 2 === 1 ? minLevel : minLevel + 1;
+  for (let level = maxLevel; level >= lowestOddLevel; level--) {
+    let index = 0;
+    while (index < runs.length) {
+      if ((runs[index]?.level ?? 0) < level) {
+        index++;
+        continue;
+      }
+      let end = index;
+      while (end < runs.length && (runs[end]?.level ?? 0) >= level) end++;
+      runs.splice(index, end - index, ...runs.slice(index, end).reverse());
+      index = end;
+    }
+  }
+
+  return runs.map((run) => ({
+    text: run.text,
+    start: run.start,
+    direction: (run.level % 2 === 1 ? "RTL" : "LTR") as "LTR" | "RTL",
+  }));
+}
+
+// Without letter spacing a run is drawn whole so ligatures and kerning
+// survive. Otherwise it is cut between grapheme clusters, except where
+// letters join cursively: positive spacing is added there with tatweels
+// (kashida) and negative spacing is not applied at all.
+function splitSpacedPieces(
+  text: string,
+  letterSpacing: number,
+  kashidaWidth: number
+): string[] {
+  if (!letterSpacing) return [text];
+  const kashidaCount =
+    letterSpacing > 0 && kashidaWidth > 0
+      ? Math.round(letterSpacing / kashidaWidth)
+      : 0;
+  const pieces: string[] = [];
+  let previous: string | undefined;
+  for (const { segment } of graphemeSegmenter.segment(text)) {
+    if (previous !== undefined && joinsCursively(previous, segment)) {
+      pieces[pieces.length - 1] += TATWEEL.repeat(kashidaCount) + segment;
+    } else {
+      pieces.push(segment);
+    }
+    previous = segment;
+  }
+  return pieces;
+}
+
+// Lays out one line as pieces in visual left-to-right order. Bidi levels are
+// resolved over the whole line, so runs in different styles still order
+// correctly. Renderers draw each piece as a shaped run and put
+// `letterSpacing` between pieces. With `wordSpacing` every space becomes its
+// own piece, widened by the renderer.
+export function layoutTextPieces(
+  runs: TextRun[],
+  direction: "LTR" | "RTL",
+  letterSpacing: number,
+  measureKashida: (
+    font: TextFont | undefined,
+    fontFamily: string | undefined
+  ) => number,
+  wordSpacing = 0
+): TextPiece[] {
+  const line = runs.map((run) => run.text).join("");
+  const pieces: TextPiece[] = [];
+  for (const bidiRun of splitBidiRuns(line, direction)) {
+    const runPieces: TextPiece[] = [];
+    let offset = 0;
+    runs.forEach((run, runIndex) => {
+      const runStart = offset;
+      offset += run.text.length;
+      const from = Math.max(bidiRun.start, runStart);
+      const to = Math.min(bidiRun.start + bidiRun.text.length, offset);
+      if (from >= to) return;
+      const text = run.text.slice(from - runStart, to - runStart);
+      const fontRuns: { text: string; fontFamily?: string | undefined }[] =
+        run.font
+          ? splitTextByFont(
+              text,
+              run.font.fontFamily,
+              run.font.fallbackFamilies
+            )
+          : [{ text }];
+      for (const fontRun of fontRuns) {
+        const canStretch =
+          letterSpacing > 0 &&
+          (!fontRun.fontFamily ||
+            fontHasGlyph(fontRun.fontFamily, TATWEEL.charCodeAt(0)));
+        const kashidaWidth = canStretch
+          ? measureKashida(run.font, fontRun.fontFamily)
+          : 0;
+        const words = wordSpacing
+          ? fontRun.text.split(/( )/).filter(Boolean)
+          : [fontRun.text];
+        for (const word of words) {
+          for (const pieceText of splitSpacedPieces(
+            word,
+            letterSpacing,
+            kashidaWidth
+          )) {
+            runPieces.push({
+              text: pieceText,
+              direction: bidiRun.direction,
+              fontFamily: fontRun.fontFamily,
+              run: runIndex,
+              levelStart: bidiRun.start,
+            });
+          }
+        }
+      }
+    });
+    if (bidiRun.direction === "RTL") runPieces.reverse();
+    pieces.push(...runPieces);
+  }
+  return pieces;
+}
+
+export function isWordSpace(piece: TextPiece) {
+  return piece.text === " ";
+}
+
+// For shaping engines that do not mirror: brackets and similar characters
+// in right-to-left pieces are replaced by their mirrored forms.
+export function toMirroredText(piece: TextPiece): string {
+  if (piece.direction === "LTR") return piece.text;
+  return Array.from(
+    piece.text,
+    (char) => bidi.getMirroredCharacter(char) ?? char
+  ).join("");
+}
+
+// The canvas resolves neutral characters at the edges of a piece (spaces,
+// punctuation, brackets) against its own guess of the direction rather than
+// `ctx.direction`, so every piece is wrapped in marks of its direction.
+function toCanvasText(piece: TextPiece) {
+  const mark = piece.direction === "RTL" ? "\u200F" : "\u200E";
+  return `${mark}${piece.text}${mark}`;
+}
+
+type CanvasTextPiece = TextPiece & {
+  font: string;
+  width: number;
+  color?: string | undefined;
+};
+
+const baselineOffsets = new Map<string, number>();
+
+// Distance from the context's `textBaseline` to the alphabetic baseline of
+// `font`. Pieces in another font than the context's are shifted by the
+// difference, so a line keeps one baseline across sizes and fallbacks.
+function measureBaselineOffset(ctx: any, font: string): number {
+  const key = `${ctx.textBaseline}|${font}`;
+  let offset = baselineOffsets.get(key);
+  if (offset === undefined) {
+    const { textBaseline } = ctx;
+    ctx.font = font;
+    const anchorAscent: number = ctx.measureText("M").fontBoundingBoxAscent;
+    ctx.textBaseline = "alphabetic";
+    offset = ctx.measureText("M").fontBoundingBoxAscent - anchorAscent;
+    ctx.textBaseline = textBaseline;
+    baselineOffsets.set(key, offset);
+  }
+  return offset;
+}
+
+// Distance from the top of a line to the baseline of `font` when drawn with
+// `textBaseline = "top"`.
+export function measureTextAscent(ctx: any, font: string): number {
+  const { font: previousFont, textBaseline } = ctx;
+  ctx.textBaseline = "top";
+  const ascent = measureBaselineOffset(ctx, font);
+  ctx.textBaseline = textBaseline;
+  ctx.font = previousFont;
+  return ascent;
+}
+
+// Ink extents of `text` above and below the alphabetic baseline.
+export function measureTextBounds(
+  ctx: any,
+  font: string,
+  text: string
+): { ascent: number; descent: number } {
+  const { font: previousFont, textBaseline } = ctx;
+  ctx.font = font;
+  ctx.textBaseline = "alphabetic";
+  const metrics = ctx.measureText(text);
+  ctx.textBaseline = textBaseline;
+  ctx.font = previousFont;
+  return {
+    ascent: metrics.actualBoundingBoxAscent,
+    descent: metrics.actualBoundingBoxDescent,
+  };
+}
+
+// Runs without a `TextFont` use the context's current font.
+function layoutCanvasPieces(
+  ctx: any,
+  runs: TextRun[],
+  letterSpacing: number,
+  direction: "LTR" | "RTL",
+  wordSpacing: number
+): CanvasTextPiece[] {
+  const baseFont: string = ctx.font;
+  const fontFor = (
+    textFont: TextFont | undefined,
+    fontFamily: string | undefined
+  ) =>
+    textFont
+      ? buildFontStack(
+          textFont.fontCssWeight,
+          textFont.fontSize,
+          fontFamily ?? textFont.fontFamily,
+          textFont.fallbackFamilies
+        )
+      : baseFont;
+  return layoutTextPieces(
+    runs,
+    direction,
+    letterSpacing,
+    (textFont, fontFamily) => {
+      ctx.font = fontFor(textFont, fontFamily);
+      return ctx.measureText(TATWEEL).width;
+    },
+    wordSpacing
+  ).map((piece) => {
+    const run = runs[piece.run];
+    const font = fontFor(run?.font, piece.fontFamily);
+    ctx.font = font;
+    ctx.direction = piece.direction === "RTL" ? "rtl" : "ltr";
+    return {
+      ...piece,
+      font,
+      width: ctx.measureText(toCanvasText(piece)).width,
+      color: run?.color,
+    };
+  });
+}
+
+function sumPieceWidths(
+  pieces: CanvasTextPiece[],
+  letterSpacing: number,
+  wordSpacing: number
+) {
+  if (pieces.length === 0) return 0;
+  return (
+    pieces.reduce(
+      (total, piece) =>
+        total + piece.width + (isWordSpace(piece) ? wordSpacing : 0),
+      0
+    ) +
+    letterSpacing * (pieces.length - 1)
+  );
+}
+
+// `x` is the anchor for the context's `textAlign` and `y` for its
+// `textBaseline` in the context's font; the line is positioned from them
+// and its pieces are then drawn left to right. Runs with a `color` override
+// the context's fill style.
+// Canvas shadows are cast by whatever is drawn, so shadow passes draw the
+// text this far off to the side and shift the shadow back by the same amount.
+const SHADOW_PASS_SHIFT = 100000;
 
 export function drawTextWithLetterSpacing(
   ctx: any,
-  text: string,
+  text: string | TextRun[],
   x: number,
   y: number,
   letterSpacing: number,
-  direction: "LTR" | "RTL" = "RTL"
+  direction: "LTR" | "RTL" = "RTL",
+  textFont?: TextFont,
+  wordSpacing = 0,
+  effects: TextEffects = {}
 ) {
-  let currentX = x;
-  for (const char of text) {
-    ctx.fillText(char, currentX, y);
-    const metrics = ctx.measureText(char);
-    const advance = metrics.width + letterSpacing;
-    currentX += direction === "RTL" ? -advance : advance;
+  const { font, textAlign, fillStyle } = ctx;
+  const baseOffset = measureBaselineOffset(ctx, font);
+  ctx.save();
+  ctx.font = font;
+  const pieces = layoutCanvasPieces(
+    ctx,
+    toTextRuns(text, textFont),
+    letterSpacing,
+    direction,
+    wordSpacing
+  );
+  const width = sumPieceWidths(pieces, letterSpacing, wordSpacing);
+  const alignsToEnd =
+    textAlign === "right" ||
+    (textAlign === "end" && direction === "LTR") ||
+    (textAlign === "start" && direction === "RTL");
+  const left =
+    textAlign === "center" ? x - width / 2 : alignsToEnd ? x - width : x;
+  const { stroke, shadows = [], decoration } = effects;
+  const decorationTop = decoration
+    ? y + baseOffset + decoration.offset - decoration.thickness / 2
+    : 0;
+
+  ctx.textAlign = "left";
+  ctx.lineJoin = "round";
+  const drawPass = (mode: "fill" | "stroke", shift = 0) => {
+    // Shadow passes draw far outside the fill style of a pattern or
+    // gradient, so their shapes use an opaque color instead.
+    const baseFill = shift && typeof fillStyle !== "string" ? "#000" : fillStyle;
+    let currentX = left - shift;
+    for (const piece of pieces) {
+      const baselineShift =
+        piece.font === font
+          ? 0
+          : baseOffset - measureBaselineOffset(ctx, piece.font);
+      ctx.font = piece.font;
+      ctx.direction = piece.direction === "RTL" ? "rtl" : "ltr";
+      if (mode === "stroke") {
+        ctx.strokeText(toCanvasText(piece), currentX, y + baselineShift);
+      } else {
+        ctx.fillStyle = piece.color ?? baseFill;
+        ctx.fillText(toCanvasText(piece), currentX, y + baselineShift);
+      }
+      currentX +=
+        piece.width + letterSpacing + (isWordSpace(piece) ? wordSpacing : 0);
+    }
+    if (decoration && width > 0) {
+      if (mode === "stroke") {
+        ctx.strokeRect(left - shift, decorationTop, width, decoration.thickness);
+      } else {
+        ctx.fillStyle = baseFill;
+        ctx.fillRect(left - shift, decorationTop, width, decoration.thickness);
+      }
+    }
+  };
+
+  // The first shadow is painted on top, as in CSS.
+  for (const shadow of [...shadows].reverse()) {
+    ctx.save();
+    ctx.shadowColor = shadow.color;
+    ctx.shadowBlur = shadow.blur;
+    ctx.shadowOffsetX = shadow.offsetX + SHADOW_PASS_SHIFT;
+    ctx.shadowOffsetY = shadow.offsetY;
+    if (stroke) {
+      ctx.strokeStyle = stroke.color;
+      ctx.lineWidth = stroke.width * 2;
+      drawPass("stroke", SHADOW_PASS_SHIFT);
+    }
+    drawPass("fill", SHADOW_PASS_SHIFT);
+    ctx.restore();
+  }
+  // The stroke is centred on the outline and twice as wide, so the fill
+  // covers its inner half.
+  if (stroke) {
+    ctx.strokeStyle = stroke.color;
+    ctx.lineWidth = stroke.width * 2;
+    drawPass("stroke");
   }
+  drawPass("fill");
+  ctx.restore();
 }
 
 export function getTextWidthWithLetterSpacing(
   ctx: any,
-  text: string,
+  text: string | TextRun[],
   letterSpacing: number,
-  direction: "LTR" | "RTL" = "RTL"
+  direction: "LTR" | "RTL" = "RTL",
+  textFont?: TextFont,
+  wordSpacing = 0
 ) {
-  let width = 0;
-  for (const char of text) {
-    width += ctx.measureText(char).width + letterSpacing;
+  const { font, direction: previousDirection } = ctx;
+  const width = sumPieceWidths(
+    layoutCanvasPieces(
+      ctx,
+      toTextRuns(text, textFont),
+      letterSpacing,
+      direction,
+      wordSpacing
+    ),
+    letterSpacing,
+    wordSpacing
+  );
+  ctx.font = font;
+  ctx.direction = previousDirection;
+  return width;
+}
+
+export type WordBreak = "NORMAL" | "BREAK-ALL" | "HYPHENATE";
+
+export const WORD_BREAKS: WordBreak[] = ["NORMAL", "BREAK-ALL", "HYPHENATE"];
+
+interface WordBreakPoint {
+  offset: number;
+  hyphen: boolean;
+}
+
+const HYPHEN = "-";
+const HYPHENATION_MARK = "\uE000";
+const HYPHENATABLE_WORD_PATTERN = /^\p{P}*[\p{Script=Latin}\p{M}'’-]+\p{P}*$/u;
+// Characters a word that is too long for a line is preferably broken after:
+// ZWNJ inside Persian compounds and URL or hashtag separators.
+const EMERGENCY_BREAK_AFTER = new Set(Array.from("\u200C/-_.?&="));
+
+const hyphenateLatin = createHyphenator(enUsPatterns, {
+  hyphenChar: HYPHENATION_MARK,
+}) as (text: string) => string;
+
+function getGraphemeBreakPoints(
+  text: string,
+  start: number,
+  end: number
+): WordBreakPoint[] {
+  const points: WordBreakPoint[] = [];
+  for (const { index } of graphemeSegmenter.segment(text.slice(start, end))) {
+    if (index > 0) points.push({ offset: start + index, hyphen: false });
   }
-  return width - letterSpacing;
+  return points;
 }
 
-export function wrapTextRTL(
-  ctx: any,
+// Break points inside the word at [start, end) that `wordBreak` allows
+// before a line is full. NORMAL only breaks at spaces.
+function getWordBreakPoints(
   text: string,
+  start: number,
+  end: number,
+  wordBreak: WordBreak
+): WordBreakPoint[] {
+  if (wordBreak === "BREAK-ALL") {
+    return getGraphemeBreakPoints(text, start, end);
+  }
+  const word = text.slice(start, end);
+  if (wordBreak !== "HYPHENATE" || !HYPHENATABLE_WORD_PATTERN.test(word)) {
+    return [];
+  }
+  const points: WordBreakPoint[] = [];
+  let offset = start;
+  for (const char of hyphenateLatin(word)) {
+    if (char === HYPHENATION_MARK) {
+      points.push({ offset, hyphen: true });
+      continue;
+    }
+    offset += char.length;
+    if (char === HYPHEN && offset < end) {
+      points.push({ offset, hyphen: false });
+    }
+  }
+  return points;
+}
+
+// Greedy word wrap on spaces. Styled runs are wrapped as one text and each
+// line comes back as its own slice of the runs. A word wider than a whole
+// line is always broken on grapheme boundaries, after a separator such as
+// ZWNJ or `/` when one fits.
+export function wrapTextRuns<T extends TextRun>(
+  ctx: any,
+  runs: T[],
   maxWidth: number,
-  letterSpacing: number
-) {
-  const words = text.split(" ");
-  const lines: string[] = [];
-  let line = "";
-  for (let i = 0; i < words.length; i++) {
-    const testLine = line ? line + " " + String(words[i]) : String(words[i]);
-    const testWidth = getTextWidthWithLetterSpacing(
+  letterSpacing: number,
+  direction: "LTR" | "RTL",
+  wordBreak: WordBreak = "NORMAL"
+): T[][] {
+  const text = runs.map((run) => run.text).join("");
+  const sliceLine = (start: number, end: number, hyphen: boolean): T[] => {
+    const line = sliceTextRuns(runs, start, end);
+    const last = hyphen ? line.pop() : undefined;
+    return last ? [...line, { ...last, text: last.text + HYPHEN }] : line;
+  };
+  const fits = (start: number, end: number, hyphen = false) =>
+    getTextWidthWithLetterSpacing(
       ctx,
-      testLine,
-      letterSpacing
-    );
-    if (testWidth > maxWidth && line) {
-      lines.push(line);
-      line = String(words[i]);
-    } else {
-      line = testLine;
+      sliceLine(start, end, hyphen),
+      letterSpacing,
+      direction
+    ) <= maxWidth;
+  const findLastFitting = (start: number, points: WordBreakPoint[]) => {
+    let found: WordBreakPoint | undefined;
+    let low = 0;
+    let high = points.length - 1;
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2);
+      const point = points[mid] as WordBreakPoint;
+      if (fits(start, point.offset, point.hyphen)) {
+        found = point;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return found;
+  };
+
+  const lines: T[][] = [];
+  let lineStart = 0;
+  let lineEnd = 0;
+  let wordStart = 0;
+  for (const word of text.split(" ")) {
+    const wordEnd = wordStart + word.length;
+    let start = wordStart;
+    wordStart = wordEnd + 1;
+    const hasLine = lineEnd > lineStart;
+    const testStart = hasLine ? lineStart : start;
+    if (fits(testStart, wordEnd)) {
+      lineStart = testStart;
+      lineEnd = wordEnd;
+      continue;
+    }
+
+    const points = getWordBreakPoints(text, start, wordEnd, wordBreak);
+    if (hasLine) {
+      const point = findLastFitting(lineStart, points);
+      lines.push(
+        point
+          ? sliceLine(lineStart, point.offset, point.hyphen)
+          : sliceLine(lineStart, lineEnd, false)
+      );
+      if (point) start = point.offset;
+    }
+
+    while (!fits(start, wordEnd)) {
+      const remaining = points.filter((point) => point.offset > start);
+      const graphemes = getGraphemeBreakPoints(text, start, wordEnd);
+      const point =
+        findLastFitting(start, remaining) ??
+        findLastFitting(
+          start,
+          graphemes.filter(({ offset }) =>
+            EMERGENCY_BREAK_AFTER.has(text[offset - 1] ?? "")
+          )
+        ) ??
+        findLastFitting(start, graphemes) ??
+        graphemes[0];
+      if (!point) break;
+      lines.push(sliceLine(start, point.offset, point.hyphen));
+      start = point.offset;
     }
+    lineStart = start;
+    lineEnd = wordEnd;
   }
-  if (line) lines.push(line);
+  if (lineEnd > lineStart) lines.push(sliceLine(lineStart, lineEnd, false));
   return lines;
 }
 
-export function wrapTextLTR(
+const ELLIPSIS = "…";
+
+// Keeps the longest grapheme prefix that still fits with a trailing "…". The
+// ellipsis takes the style of the last kept run and sits at the logical end,
+// so bidi places it on the left of RTL lines.
+export function ellipsizeTextRuns<T extends TextRun>(
   ctx: any,
-  text: string,
+  runs: T[],
   maxWidth: number,
-  letterSpacing: number
-) {
-  const words = text.split(" ");
-  const lines: string[] = [];
-  let line = "";
-  for (let i = 0; i < words.length; i++) {
-    const testLine = line ? `${line} ${String(words[i])}` : String(words[i]);
-    const testWidth = getTextWidthWithLetterSpacing(
+  letterSpacing: number,
+  direction: "LTR" | "RTL"
+): T[] {
+  const first = runs[0];
+  if (!first) return runs;
+  const text = runs.map((run) => run.text).join("");
+  const boundaries = [0];
+  for (const { index, segment } of graphemeSegmenter.segment(text)) {
+    boundaries.push(index + segment.length);
+  }
+
+  const withEllipsis = (end: number): T[] => {
+    const kept = sliceTextRuns(runs, 0, text.slice(0, end).trimEnd().length);
+    const last = kept.pop() ?? { ...first, text: "" };
+    return [...kept, { ...last, text: last.text + ELLIPSIS }];
+  };
+
+  let low = 0;
+  let high = boundaries.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    const width = getTextWidthWithLetterSpacing(
       ctx,
-      testLine,
+      withEllipsis(boundaries[mid] ?? 0),
       letterSpacing,
-      "LTR"
+      direction
     );
-    if (testWidth > maxWidth && line) {
-      lines.push(line);
-      line = String(words[i]);
+    if (width <= maxWidth) {
+      low = mid;
     } else {
-      line = testLine;
+      high = mid - 1;
     }
   }
-  if (line) lines.push(line);
-  return lines;
+  return withEllipsis(boundaries[low] ?? 0);
+}
+
+const LAM = "\u0644";
+const ALEF_PATTERN = /^[\u0622\u0623\u0625\u0627\u0671-\u0673\u0675]/;
+// The joining strokes of seen and sad stretch best, so words prefer a
+// kashida after them, then before their final letter.
+const KASHIDA_PREFERRED_AFTER = new Set(Array.from("سشصض"));
+const MAX_KASHIDAS_PER_WORD = 3;
+
+interface KashidaPoint {
+  offset: number;
+  width: number;
+  count: number;
+}
+
+// The best joining point of one Arabic-script word, never inside lam-alef
+// (which would break the ligature) or next to an existing tatweel.
+function findKashidaOffset(
+  text: string,
+  start: number,
+  end: number
+): number | undefined {
+  const clusters = Array.from(
+    graphemeSegmenter.segment(text.slice(start, end)),
+    ({ index, segment }) => ({ offset: start + index, segment })
+  );
+  let best: { offset: number; priority: number } | undefined;
+  clusters.forEach((cluster, index) => {
+    const previous = clusters[index - 1];
+    if (!previous) return;
+    if (
+      !joinsCursively(previous.segment, cluster.segment) ||
+      previous.segment.startsWith(TATWEEL) ||
+      cluster.segment.startsWith(TATWEEL) ||
+      (previous.segment.startsWith(LAM) && ALEF_PATTERN.test(cluster.segment))
+    ) {
+      return;
+    }
+    const priority = KASHIDA_PREFERRED_AFTER.has(previous.segment[0] ?? "")
+      ? 3
+      : index === clusters.length - 1
+      ? 2
+      : 1;
+    if (!best || priority >= best.priority) {
+      best = { offset: cluster.offset, priority };
+    }
+  });
+  return best?.offset;
+}
+
+function insertKashidas<T extends TextRun>(
+  runs: T[],
+  points: KashidaPoint[]
+): T[] {
+  let offset = 0;
+  return runs.map((run) => {
+    const runStart = offset;
+    offset += run.text.length;
+    let text = "";
+    let last = runStart;
+    for (const point of points) {
+      if (
+        point.count === 0 ||
+        point.offset <= runStart ||
+        point.offset > offset
+      ) {
+        continue;
+      }
+      text +=
+        run.text.slice(last - runStart, point.offset - runStart) +
+        TATWEEL.repeat(point.count);
+      last = point.offset;
+    }
+    return { ...run, text: text + run.text.slice(last - runStart) };
+  });
+}
+
+// Stretches a line to `maxWidth`. Arabic-script words are first lengthened
+// with kashidas at one joining point each, a few tatweels at most, and the
+// rest of the gap is spread over the spaces as `wordSpacing`.
+export function justifyTextRuns<T extends TextRun>(
+  ctx: any,
+  runs: T[],
+  maxWidth: number,
+  letterSpacing: number,
+  direction: "LTR" | "RTL"
+): { runs: T[]; wordSpacing: number } {
+  const measure = (line: T[]) =>
+    getTextWidthWithLetterSpacing(ctx, line, letterSpacing, direction);
+  const width = measure(runs);
+  if (width >= maxWidth) return { runs, wordSpacing: 0 };
+
+  const text = runs.map((run) => run.text).join("");
+  const points: KashidaPoint[] = [];
+  let wordStart = 0;
+  for (const word of text.split(" ")) {
+    const offset = findKashidaOffset(text, wordStart, wordStart + word.length);
+    const run =
+      offset === undefined
+        ? undefined
+        : sliceTextRuns(runs, offset - 1, offset)[0];
+    if (offset !== undefined && run) {
+      points.push({
+        offset,
+        width: measure([{ ...run, text: TATWEEL }]),
+        count: 0,
+      });
+    }
+    wordStart += word.length + 1;
+  }
+
+  let extra = maxWidth - width;
+  for (let round = 0; round < MAX_KASHIDAS_PER_WORD; round++) {
+    let added = false;
+    for (const point of points) {
+      if (point.width <= 0 || point.width > extra) continue;
+      point.count++;
+      extra -= point.width;
+      added = true;
+    }
+    if (!added) break;
+  }
+
+  let justified = insertKashidas(runs, points);
+  let justifiedWidth = measure(justified);
+  if (justifiedWidth > maxWidth) {
+    justified = runs;
+    justifiedWidth = width;
+  }
+  const spaces = text.split(" ").length - 1;
+  return {
+    runs: justified,
+    wordSpacing: spaces > 0 ? (maxWidth - justifiedWidth) / spaces : 0,
+  };
+}
+
+function joinTextRuns(runs: TextRun[]) {
+  return runs.map((run) => run.text).join("");
+}
+
+export function wrapTextRTL(
+  ctx: any,
+  text: string,
+  maxWidth: number,
+  letterSpacing: number,
+  textFont?: TextFont,
+  wordBreak: WordBreak = "NORMAL"
+) {
+  return wrapTextRuns(
+    ctx,
+    toTextRuns(text, textFont),
+    maxWidth,
+    letterSpacing,
+    "RTL",
+    wordBreak
+  ).map(joinTextRuns);
+}
+
+export function wrapTextLTR(
+  ctx: any,
+  text: string,
+  maxWidth: number,
+  letterSpacing: number,
+  textFont?: TextFont,
+  wordBreak: WordBreak = "NORMAL"
+) {
+  return wrapTextRuns(
+    ctx,
+    toTextRuns(text, textFont),
+    maxWidth,
+    letterSpacing,
+    "LTR",
+    wordBreak
+  ).map(joinTextRuns);
 }
 
 export function reshapeTextContent(text: string): string {
@@ -98,19 +944,640 @@ export function reshapeTextContent(text: string): string {
   }
 }
 
-export function preprocessSceneText(node: SceneNodeInput) {
-  if (typeof node.text === "string") {
-    node.text = reshapeTextContent(node.text);
+export type TextDigits = "fa" | "ar" | "latn";
+
+export const TEXT_DIGITS: TextDigits[] = ["fa", "ar", "latn"];
+
+export interface TextNormalizationOptions {
+  // Persian letter forms, ZWNJ cleanup and punctuation spacing.
+  normalize?: boolean | undefined;
+  digits?: TextDigits | undefined;
+}
+
+const ZWNJ = "\u200C";
+
+const PERSIAN_LETTERS: Record<string, string> = {
+  "\u0643": "\u06A9", // ك -> ک
+  "\u064A": "\u06CC", // ي -> ی
+  "\u0649": "\u06CC", // ى -> ی
+};
+
+const DIGIT_SETS: Record<TextDigits, string> = {
+  fa: "۰۱۲۳۴۵۶۷۸۹",
+  ar: "٠١٢٣٤٥٦٧٨٩",
+  latn: "0123456789",
+};
+
+// Numbers with their decimal and thousands separators, which become the
+// Arabic "٫" and "٬" outside Western digits.
+const NUMBER_PATTERN =
+  /[0-9\u0660-\u0669\u06F0-\u06F9]+(?:[.,\u066B\u066C][0-9\u0660-\u0669\u06F0-\u06F9]+)*/g;
+
+const NUMBER_SEPARATORS: Record<string, [string, string]> = {
+  ".": [".", "\u066B"],
+  ",": [",", "\u066C"],
+  "\u066B": [".", "\u066B"],
+  "\u066C": [",", "\u066C"],
+};
+const LATIN_LETTER_PATTERN = /\p{Script=Latin}/u;
+const LINK_TOKEN_PATTERN = /:\/\/|@|^www\./i;
+
+// A ZWNJ only matters between a letter that joins forward and the next
+// Arabic-script letter; anywhere else it is dropped.
+function cleanupZwnj(text: string): string {
+  const chars = Array.from(text.replace(/\u200C{2,}/g, ZWNJ));
+  return chars
+    .filter((char, index) => {
+      if (char !== ZWNJ) return true;
+      let previous = index - 1;
+      while (previous >= 0 && getJoiningType(chars[previous] ?? "") === "T") {
+        previous--;
+      }
+      const next = getJoiningType(chars[index + 1] ?? "");
+      return (
+        getJoiningType(chars[previous] ?? "") === "D" &&
+        (next === "D" || next === "R")
+      );
+    })
+    .join("");
+}
+
+function fixPunctuationSpacing(text: string): string {
+  return text
+    .replace(/[ \t]+(?=[.,;:!?،؛؟»)\]}])/g, "")
+    .replace(/([«(\[{])[ \t]+/g, "$1")
+    .replace(/([،؛؟])(?=[^\s\p{P}])/gu, "$1 ")
+    .replace(/([.,;:!?])(?=\p{Script=Arabic})/gu, "$1 ")
+    .replace(/[ \t]{2,}/g, " ");
+}
+
+// Digits inside links, e-mail addresses and Latin words such as "mp3" keep
+// their Western form.
+function localizeDigits(text: string, digits: TextDigits): string {
+  const target = DIGIT_SETS[digits];
+  const convert = (value: string) =>
+    value.replace(NUMBER_PATTERN, (match) =>
+      Array.from(match, (char) => {
+        const separator = NUMBER_SEPARATORS[char];
+        if (separator) return separator[digits === "latn" ? 0 : 1];
+        const code = char.charCodeAt(0);
+        const digit =
+          code >= 0x06f0
+            ? code - 0x06f0
+            : code >= 0x0660
+            ? code - 0x0660
+            : code - 48;
+        return target[digit] ?? char;
+      }).join("")
+    );
+  if (digits === "latn") return convert(text);
+
+  return text
+    .split(/(\s+)/)
+    .map((token) =>
+      LINK_TOKEN_PATTERN.test(token)
+        ? token
+        : token.replace(NUMBER_PATTERN, (match, offset: number) =>
+            LATIN_LETTER_PATTERN.test(token[offset - 1] ?? "") ||
+            LATIN_LETTER_PATTERN.test(token[offset + match.length] ?? "")
+              ? match
+              : convert(match)
+          )
+    )
+    .join("");
+}
+
+// Opt-in cleanup for user-submitted Persian copy, applied before layout.
+export function normalizeTextContent(
+  text: string,
+  options: TextNormalizationOptions
+): string {
+  let normalized = text;
+  if (options.normalize) {
+    normalized = normalized.replace(
+      /[\u0643\u064A\u0649]/g,
+      (char) => PERSIAN_LETTERS[char] ?? char
+    );
+    normalized = fixPunctuationSpacing(cleanupZwnj(normalized));
   }
-  if (Array.isArray(node.children)) {
-    node.children.forEach(preprocessSceneText);
+  if (options.digits && TEXT_DIGITS.includes(options.digits)) {
+    normalized = localizeDigits(normalized, options.digits);
   }
+  return normalized;
 }
 
+// The base direction comes from the first strong character (UAX #9 rules
+// P2 and P3); text without one is LTR.
 export function detectTextDirection(text?: string): "LTR" | "RTL" {
-  if (text && RTL_CHAR_PATTERN.test(text)) {
-    return "RTL";
+  if (!text) return "LTR";
+  const { paragraphs } = bidi.getEmbeddingLevels(text, "auto");
+  return (paragraphs[0]?.level ?? 0) % 2 === 1 ? "RTL" : "LTR";
+}
+
+type TextDirectionResolutionSuccess = { ok: true; direction: "LTR" | "RTL" };
+
+type TextDirectionResolutionFailure = { ok: false; error: string };
+
+export type TextDirectionResolutionResult =
+  | TextDirectionResolutionSuccess
+  | TextDirectionResolutionFailure;
+
+// `/image` keeps its historical RTL base direction unless told otherwise.
+export function resolveTextDirection(
+  input: unknown,
+  text: string
+): TextDirectionResolutionResult {
+  if (input === undefined) {
+    return { ok: true, direction: "RTL" };
+  }
+  const value = typeof input === "string" ? input.trim().toUpperCase() : "";
+  if (value === "RTL" || value === "LTR") {
+    return { ok: true, direction: value };
+  }
+  if (value === "AUTO") {
+    return { ok: true, direction: detectTextDirection(text) };
+  }
+  return {
+    ok: false,
+    error: "Unsupported 'textDirection'. Available options: RTL, LTR, AUTO.",
+  };
+}
+
+type WordBreakResolutionSuccess = { ok: true; wordBreak: WordBreak };
+
+type WordBreakResolutionFailure = { ok: false; error: string };
+
+export type WordBreakResolutionResult =
+  | WordBreakResolutionSuccess
+  | WordBreakResolutionFailure;
+
+export function resolveWordBreak(input: unknown): WordBreakResolutionResult {
+  if (input === undefined) {
+    return { ok: true, wordBreak: "NORMAL" };
+  }
+  const value = typeof input === "string" ? input.trim().toUpperCase() : "";
+  const wordBreak = WORD_BREAKS.find((candidate) => candidate === value);
+  if (!wordBreak) {
+    return {
+      ok: false,
+      error: `Unsupported 'wordBreak'. Available options: ${WORD_BREAKS.join(
+        ", "
+      )}.`,
+    };
+  }
+  return { ok: true, wordBreak };
+}
+
+type TextDigitsResolutionSuccess = {
+  ok: true;
+  digits: TextDigits | undefined;
+};
+
+type TextDigitsResolutionFailure = { ok: false; error: string };
+
+export type TextDigitsResolutionResult =
+  | TextDigitsResolutionSuccess
+  | TextDigitsResolutionFailure;
+
+export function resolveTextDigits(input: unknown): TextDigitsResolutionResult {
+  if (input === undefined) {
+    return { ok: true, digits: undefined };
+  }
+  const value = typeof input === "string" ? input.trim().toLowerCase() : "";
+  const digits = TEXT_DIGITS.find((candidate) => candidate === value);
+  if (!digits) {
+    return {
+      ok: false,
+      error: `Unsupported 'digits'. Available options: ${TEXT_DIGITS.join(
+        ", "
+      )}.`,
+    };
   }
-  return "LTR";
+  return { ok: true, digits };
 }
 
+export type TextAlign = "LEFT" | "CENTER" | "RIGHT" | "JUSTIFY" | "JUSTIFY_ALL";
+
+export const TEXT_ALIGNS: TextAlign[] = [
+  "LEFT",
+  "CENTER",
+  "RIGHT",
+  "JUSTIFY",
+  "JUSTIFY_ALL",
+];
+
+type TextAlignResolutionSuccess = { ok: true; textAlign: TextAlign };
+
+type TextAlignResolutionFailure = { ok: false; error: string };
+
+export type TextAlignResolutionResult =
+  | TextAlignResolutionSuccess
+  | TextAlignResolutionFailure;
+
+// `/image` keeps centering its lines unless told otherwise.
+export function resolveTextAlign(input: unknown): TextAlignResolutionResult {
+  if (input === undefined) {
+    return { ok: true, textAlign: "CENTER" };
+  }
+  const value = typeof input === "string" ? input.trim().toUpperCase() : "";
+  const textAlign = TEXT_ALIGNS.find((candidate) => candidate === value);
+  if (!textAlign) {
+    return {
+      ok: false,
+      error: `Unsupported 'textAlign'. Available options: ${TEXT_ALIGNS.join(
+        ", "
+      )}.`,
+    };
+  }
+  return { ok: true, textAlign };
+}
+
+export interface TextStroke {
+  color: string;
+  width: number;
+}
+
+export interface TextShadow {
+  color: string;
+  offsetX: number;
+  offsetY: number;
+  blur: number;
+}
+
+export type TextDecoration = "NONE" | "UNDERLINE" | "LINE-THROUGH";
+
+export const TEXT_DECORATIONS: TextDecoration[] = [
+  "NONE",
+  "UNDERLINE",
+  "LINE-THROUGH",
+];
+
+export const MAX_TEXT_SHADOWS = 8;
+
+// A decoration line in pixels, measured downwards from the baseline.
+export interface TextDecorationLine {
+  offset: number;
+  thickness: number;
+}
+
+// Painted with every line: shadows first, then the stroke, then the fill.
+export interface TextEffects {
+  stroke?: TextStroke | undefined;
+  shadows?: TextShadow[];
+  decoration?: TextDecorationLine | undefined;
+}
+
+type TextStrokeResolutionSuccess = {
+  ok: true;
+  stroke: TextStroke | undefined;
+};
+
+type TextStrokeResolutionFailure = { ok: false; error: string };
+
+export type TextStrokeResolutionResult =
+  | TextStrokeResolutionSuccess
+  | TextStrokeResolutionFailure;
+
+export function resolveTextStroke(input: unknown): TextStrokeResolutionResult {
+  if (input === undefined) {
+    return { ok: true, stroke: undefined };
+  }
+  const stroke = input as Record<string, unknown> | null;
+  if (
+    !stroke ||
+    typeof stroke !== "object" ||
+    Array.isArray(stroke) ||
+    typeof stroke.color !== "string" ||
+    typeof stroke.width !== "number" ||
+    !Number.isFinite(stroke.width) ||
+    stroke.width <= 0
+  ) {
+    return {
+      ok: false,
+      error:
+        "'textStroke' must be an object with a 'color' string and a positive 'width'.",
+    };
+  }
+  return { ok: true, stroke: { color: stroke.color, width: stroke.width } };
+}
+
+type TextShadowsResolutionSuccess = { ok: true; shadows: TextShadow[] };
+
+type TextShadowsResolutionFailure = { ok: false; error: string };
+
+export type TextShadowsResolutionResult =
+  | TextShadowsResolutionSuccess
+  | TextShadowsResolutionFailure;
+
+// `offsetX`, `offsetY` and `blur` default to 0.
+export function resolveTextShadows(
+  input: unknown
+): TextShadowsResolutionResult {
+  if (input === undefined) {
+    return { ok: true, shadows: [] };
+  }
+  if (!Array.isArray(input) || input.length > MAX_TEXT_SHADOWS) {
+    return {
+      ok: false,
+      error: `'textShadow' must be an array of at most ${MAX_TEXT_SHADOWS} shadows.`,
+    };
+  }
+  const shadows: TextShadow[] = [];
+  for (const [index, entry] of input.entries()) {
+    const shadow = entry as Record<string, unknown> | null;
+    const offsetX = shadow?.offsetX ?? 0;
+    const offsetY = shadow?.offsetY ?? 0;
+    const blur = shadow?.blur ?? 0;
+    if (
+      !shadow ||
+      typeof shadow !== "object" ||
+      Array.isArray(shadow) ||
+      typeof shadow.color !== "string" ||
+      typeof offsetX !== "number" ||
+      !Number.isFinite(offsetX) ||
+      typeof offsetY !== "number" ||
+      !Number.isFinite(offsetY) ||
+      typeof blur !== "number" ||
+      !Number.isFinite(blur) ||
+      blur < 0
+    ) {
+      return {
+        ok: false,
+        error: `'textShadow[${index}]' must be an object with a 'color' string, numeric 'offsetX' and 'offsetY', and a non-negative 'blur'.`,
+      };
+    }
+    shadows.push({ color: shadow.color, offsetX, offsetY, blur });
+  }
+  return { ok: true, shadows };
+}
+
+type TextDecorationResolutionSuccess = {
+  ok: true;
+  decoration: TextDecoration;
+};
+
+type TextDecorationResolutionFailure = { ok: false; error: string };
+
+export type TextDecorationResolutionResult =
+  | TextDecorationResolutionSuccess
+  | TextDecorationResolutionFailure;
+
+export function resolveTextDecoration(
+  input: unknown
+): TextDecorationResolutionResult {
+  if (input === undefined) {
+    return { ok: true, decoration: "NONE" };
+  }
+  const value = typeof input === "string" ? input.trim().toUpperCase() : "";
+  const decoration = TEXT_DECORATIONS.find((candidate) => candidate === value);
+  if (!decoration) {
+    return {
+      ok: false,
+      error: `Unsupported 'textDecoration'. Available options: ${TEXT_DECORATIONS.join(
+        ", "
+      )}.`,
+    };
+  }
+  return { ok: true, decoration };
+}
+
+export function resolveTextDecorationLine(
+  decoration: TextDecoration,
+  fontFamily: string,
+  fontSize: number
+): TextDecorationLine | undefined {
+  if (decoration === "NONE") return undefined;
+  const metrics = getFontDecorationMetrics(fontFamily);
+  return decoration === "UNDERLINE"
+    ? {
+        offset: -metrics.underlinePosition * fontSize,
+        thickness: metrics.underlineThickness * fontSize,
+      }
+    : {
+        offset: -metrics.strikeoutPosition * fontSize,
+        thickness: metrics.strikeoutThickness * fontSize,
+      };
+}
+
+// How far the stroke, shadows and line background reach past the lines on
+// each side. The stroke is drawn outside the glyph outlines and a blurred
+// shadow spreads by about its blur radius.
+export function getTextEffectsBleed(
+  effects: TextEffects,
+  lineBackground?: TextLineBackground
+): {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+} {
+  const strokeWidth = effects.stroke?.width ?? 0;
+  const paddingX = lineBackground?.paddingX ?? 0;
+  const paddingY = lineBackground?.paddingY ?? 0;
+  const bleed = {
+    top: Math.max(strokeWidth, paddingY),
+    right: Math.max(strokeWidth, paddingX),
+    bottom: Math.max(strokeWidth, paddingY),
+    left: Math.max(strokeWidth, paddingX),
+  };
+  for (const shadow of effects.shadows ?? []) {
+    const spread = strokeWidth + shadow.blur;
+    bleed.top = Math.max(bleed.top, spread - shadow.offsetY);
+    bleed.right = Math.max(bleed.right, spread + shadow.offsetX);
+    bleed.bottom = Math.max(bleed.bottom, spread + shadow.offsetY);
+    bleed.left = Math.max(bleed.left, spread - shadow.offsetX);
+  }
+  return bleed;
+}
+
+export interface TextLineBackground {
+  color: string;
+  paddingX: number;
+  paddingY: number;
+  cornerRadius: number;
+}
+
+// Where a line is drawn, before the background's padding is added.
+export interface TextLineBox {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+type TextLineBackgroundResolutionSuccess = {
+  ok: true;
+  lineBackground: TextLineBackground | undefined;
+};
+
+type TextLineBackgroundResolutionFailure = { ok: false; error: string };
+
+export type TextLineBackgroundResolutionResult =
+  | TextLineBackgroundResolutionSuccess
+  | TextLineBackgroundResolutionFailure;
+
+// `paddingX`, `paddingY` and `cornerRadius` default to 0.
+export function resolveTextLineBackground(
+  input: unknown
+): TextLineBackgroundResolutionResult {
+  if (input === undefined) {
+    return { ok: true, lineBackground: undefined };
+  }
+  const background = input as Record<string, unknown> | null;
+  const paddingX = background?.paddingX ?? 0;
+  const paddingY = background?.paddingY ?? 0;
+  const cornerRadius = background?.cornerRadius ?? 0;
+  if (
+    !background ||
+    typeof background !== "object" ||
+    Array.isArray(background) ||
+    typeof background.color !== "string" ||
+    [paddingX, paddingY, cornerRadius].some(
+      (value) =>
+        typeof value !== "number" || !Number.isFinite(value) || value < 0
+    )
+  ) {
+    return {
+      ok: false,
+      error:
+        "'lineBackground' must be an object with a 'color' string and non-negative 'paddingX', 'paddingY' and 'cornerRadius'.",
+    };
+  }
+  return {
+    ok: true,
+    lineBackground: {
+      color: background.color,
+      paddingX: paddingX as number,
+      paddingY: paddingY as number,
+      cornerRadius: cornerRadius as number,
+    },
+  };
+}
+
+type Point = { x: number; y: number };
+
+function roundPathNumber(value: number) {
+  return String(Math.round(value * 100) / 100);
+}
+
+// Traces the padded boxes of consecutive lines as one staircase: on each
+// side the wider of two overlapping boxes wins, so the step sits at the edge
+// of the wider box.
+function traceLineBoxes(boxes: TextLineBox[]): Point[] {
+  const first = boxes[0];
+  const last = boxes[boxes.length - 1];
+  if (!first || !last) return [];
+  const pairs = boxes.slice(1).map((next, index) => ({
+    box: boxes[index] ?? next,
+    next,
+  }));
+
+  const right: Point[] = [{ x: first.right, y: first.top }];
+  let y = first.top;
+  for (const { box, next } of pairs) {
+    if (box.right === next.right) continue;
+    y = Math.max(y, box.right > next.right ? box.bottom : next.top);
+    right.push({ x: box.right, y }, { x: next.right, y });
+  }
+  right.push({ x: last.right, y: last.bottom });
+
+  const left: Point[] = [{ x: last.left, y: last.bottom }];
+  y = last.bottom;
+  for (const { box, next } of pairs.reverse()) {
+    if (box.left === next.left) continue;
+    y = Math.min(y, box.left < next.left ? box.bottom : next.top);
+    left.push({ x: next.left, y }, { x: box.left, y });
+  }
+  left.push({ x: first.left, y: first.top });
+
+  // Drop repeated points and points in the middle of a straight edge.
+  const points: Point[] = [];
+  for (const point of [...right, ...left]) {
+    const previous = points[points.length - 1];
+    if (!previous || previous.x !== point.x || previous.y !== point.y) {
+      points.push(point);
+    }
+  }
+  return points.filter((point, index) => {
+    const previous = points[(index + points.length - 1) % points.length];
+    const next = points[(index + 1) % points.length];
+    return !(
+      (previous?.x === point.x && point.x === next?.x) ||
+      (previous?.y === point.y && point.y === next?.y)
+    );
+  });
+}
+
+function roundPolygonPath(points: Point[], cornerRadius: number): string {
+  const count = points.length;
+  if (count < 3) return "";
+  const corners = points.map((point, index) => {
+    const previous = points[(index + count - 1) % count] ?? point;
+    const next = points[(index + 1) % count] ?? point;
+    const toPrevious = Math.hypot(previous.x - point.x, previous.y - point.y);
+    const toNext = Math.hypot(next.x - point.x, next.y - point.y);
+    const radius = Math.min(cornerRadius, toPrevious / 2, toNext / 2);
+    const towards = (target: Point, distance: number) => ({
+      x: point.x + ((target.x - point.x) / distance) * radius,
+      y: point.y + ((target.y - point.y) / distance) * radius,
+    });
+    return {
+      point,
+      start: towards(previous, toPrevious),
+      end: towards(next, toNext),
+    };
+  });
+  const format = (point: Point) =>
+    `${roundPathNumber(point.x)} ${roundPathNumber(point.y)}`;
+  // Starts just past the first corner and ends by rounding it.
+  const commands = corners.map(
+    (corner) => `L ${format(corner.start)} Q ${format(corner.point)} ${format(
+      corner.end
+    )}`
+  );
+  commands.push(commands.shift() ?? "");
+  return `M ${format(corners[0]?.end ?? { x: 0, y: 0 })} ${commands.join(
+    " "
+  )} Z`;
+}
+
+// SVG path data for the boxes behind a block of lines. Boxes of adjacent
+// lines that touch once padded merge into one shape, and every corner,
+// including the inner ones where the width changes, is rounded by up to
+// `cornerRadius`. Empty lines leave a gap.
+export function buildLineBackgroundPath(
+  lines: TextLineBox[],
+  background: TextLineBackground
+): string {
+  const groups: TextLineBox[][] = [];
+  let group: TextLineBox[] = [];
+  for (const line of lines) {
+    if (line.right - line.left <= 0) {
+      group = [];
+      continue;
+    }
+    const box = {
+      left: line.left - background.paddingX,
+      right: line.right + background.paddingX,
+      top: line.top - background.paddingY,
+      bottom: line.bottom + background.paddingY,
+    };
+    const previous = group[group.length - 1];
+    if (
+      !previous ||
+      box.top > previous.bottom ||
+      box.left > previous.right ||
+      box.right < previous.left
+    ) {
+      group = [];
+      groups.push(group);
+    }
+    group.push(box);
+  }
+  return groups
+    .map((boxes) =>
+      roundPolygonPath(traceLineBoxes(boxes), background.cornerRadius)
+    )
+    .filter(Boolean)
+    .join(" ");
+}
@@ -1,7 +1,22 @@
+import type { FontFallbacks } from "../config/fonts.js";
+import type { SceneFill } from "./fills.js";
+import type {
+  TextAlign,
+  TextDecoration,
+  TextDigits,
+  TextLineBackground,
+  TextShadow,
+  TextStroke,
+  WordBreak,
+} from "./text.js";
+
 export type SceneNodeType = "FRAME" | "GROUP" | "RECT" | "TEXT" | "IMAGE";
 export type LayoutMode = "NONE" | "HORIZONTAL" | "VERTICAL";
 export type PrimaryAxisAlign = "MIN" | "CENTER" | "MAX" | "SPACE_BETWEEN";
 export type CounterAxisAlign = "MIN" | "CENTER" | "MAX" | "STRETCH";
+export type TextOverflow = "VISIBLE" | "CLIP" | "ELLIPSIS" | "SHRINK";
+export type TextAlignVertical = "TOP" | "CENTER" | "BOTTOM";
+export type LeadingTrim = "NONE" | "CAP_HEIGHT" | "GLYPHS";
 
 export type DimensionSpec =
   | { mode: "AUTO" }
@@ -16,6 +31,15 @@ export interface Padding {
   left: number;
 }
 
+export interface TextSpanInput {
+  text?: string;
+  color?: string;
+  fontWeight?: unknown;
+  fontName?: unknown;
+  fontSize?: number;
+  link?: string;
+}
+
 export interface SceneNodeInput {
   id?: string;
   type?: SceneNodeType;
@@ -34,20 +58,33 @@ export interface SceneNodeInput {
   y?: number;
   absolute?: boolean;
   backgroundColor?: string;
+  fills?: SceneFill[];
   cornerRadius?: number;
   clipsContent?: boolean;
   opacity?: number;
   text?: string;
+  spans?: TextSpanInput[];
   textColor?: string;
   fontSize?: number;
   fontName?: unknown;
   fontWeight?: unknown;
   lineHeight?: number;
   letterSpacing?: number;
-  textAlign?: "LEFT" | "CENTER" | "RIGHT";
+  textAlign?: TextAlign;
+  textAlignVertical?: TextAlignVertical;
+  leadingTrim?: LeadingTrim;
   textDirection?: "LTR" | "RTL";
   wrap?: boolean;
   maxLines?: number;
+  textOverflow?: TextOverflow;
+  minFontSize?: number;
+  wordBreak?: WordBreak;
+  normalize?: boolean;
+  digits?: TextDigits;
+  textStroke?: TextStroke;
+  textShadow?: TextShadow[];
+  textDecoration?: TextDecoration;
+  lineBackground?: TextLineBackground;
   imageUrl?: string;
 }
 
@@ -70,10 +107,16 @@ export interface NormalizedSceneNode extends SceneNodeInput {
   absolute: boolean;
   clipsContent: boolean;
   opacity: number;
-  textAlign: "LEFT" | "CENTER" | "RIGHT";
+  textAlign: TextAlign;
+  textAlignVertical: TextAlignVertical;
+  leadingTrim: LeadingTrim;
   textDirection: "LTR" | "RTL";
   wrap: boolean;
   letterSpacing: number;
+  textOverflow: TextOverflow;
+  wordBreak: WordBreak;
+  textDecoration: TextDecoration;
+  fills: SceneFill[];
 }
 
 export interface LayoutNodeResult {
@@ -88,6 +131,11 @@ export interface LayoutNodeResult {
   textLayout?: TextLayoutMetadata;
 }
 
+export interface ScenePageLayout {
+  layout: LayoutNodeResult;
+  backgroundColor: string;
+}
+
 export interface SerializableLayoutNode {
   id: string;
   type: SceneNodeType;
@@ -99,14 +147,60 @@ export interface SerializableLayoutNode {
   children: SerializableLayoutNode[];
 }
 
+export interface TextStyleLayout {
+  font: string;
+  fontFamily: string;
+  fontCssWeight: string;
+  fallbackFamilies: FontFallbacks;
+  fontSize: number;
+  color: string;
+  link?: string;
+}
+
+export interface TextLineRun {
+  text: string;
+  // Index into `TextLayoutMetadata.styles`.
+  style: number;
+}
+
+export interface TextLineLayout {
+  text: string;
+  runs: TextLineRun[];
+  height: number;
+  // Distance from the top of the line to its baseline.
+  ascent: number;
+  // Extra advance of every space on a justified line.
+  wordSpacing: number;
+  // Measured advance of the drawn line, including `wordSpacing`.
+  width: number;
+}
+
+// The node's own style is `styles[0]` and is mirrored on the top-level
+// fields; spans add one style each.
 export interface TextLayoutMetadata {
-  lines: string[];
+  lines: TextLineLayout[];
+  styles: TextStyleLayout[];
   font: string;
+  fontFamily: string;
+  fontCssWeight: string;
+  fallbackFamilies: FontFallbacks;
+  fontSize: number;
   color: string;
   letterSpacing: number;
-  lineHeight: number;
   direction: "LTR" | "RTL";
   textAlign: CanvasTextAlign;
+  // Distance from the top of the node to the top of the first line box.
+  offsetY: number;
+  // Horizontal room kept free for stroke and shadow bleed; `offsetY` already
+  // includes the top.
+  inset: { left: number; right: number };
+  stroke?: TextStroke | undefined;
+  shadows: TextShadow[];
+  decoration: TextDecoration;
+  lineBackground?: TextLineBackground | undefined;
+  // Set by every `textOverflow` mode except VISIBLE: text is clipped to the
+  // node's box.
+  clip: boolean;
 }
 
 export interface LayoutConstraints {
@@ -0,0 +1,894 @@
+import { createCanvas } from "@napi-rs/canvas";
+import { resolveFontRequest } from "../config/fonts.js";
+import { SceneSchemaError, type SceneValidationIssue } from "../errors.js";
+import { MAX_TEXT_SHADOWS } from "./text.js";
+import { type SceneNodeInput } from "./types.js";
+
+export type SceneValidationMode = "strict" | "lenient";
+
+const VALIDATION_MODES: SceneValidationMode[] = ["strict", "lenient"];
+
+export const DEFAULT_VALIDATION_MODE: SceneValidationMode = "strict";
+
+export type SceneIssueCode =
+  | "invalid_type"
+  | "invalid_value"
+  | "invalid_dimension"
+  | "out_of_range"
+  | "invalid_color"
+  | "invalid_font"
+  | "unknown_property"
+  | "required";
+
+const NODE_TYPES = ["FRAME", "GROUP", "RECT", "TEXT", "IMAGE"];
+const LAYOUT_MODES = ["NONE", "HORIZONTAL", "VERTICAL"];
+const PRIMARY_AXIS_ALIGNS = ["MIN", "CENTER", "MAX", "SPACE_BETWEEN"];
+const COUNTER_AXIS_ALIGNS = ["MIN", "CENTER", "MAX", "STRETCH"];
+const TEXT_ALIGNS = ["LEFT", "CENTER", "RIGHT", "JUSTIFY", "JUSTIFY_ALL"];
+const TEXT_ALIGN_VERTICALS = ["TOP", "CENTER", "BOTTOM"];
+const LEADING_TRIMS = ["NONE", "CAP_HEIGHT", "GLYPHS"];
+const TEXT_DIRECTIONS = ["LTR", "RTL"];
+const TEXT_OVERFLOWS = ["VISIBLE", "CLIP", "ELLIPSIS", "SHRINK"];
+const WORD_BREAKS = ["NORMAL", "BREAK-ALL", "HYPHENATE"];
+const TEXT_DIGITS = ["FA", "AR", "LATN"];
+const TEXT_DECORATIONS = ["NONE", "UNDERLINE", "LINE-THROUGH"];
+const PADDING_SIDES = ["top", "right", "bottom", "left"];
+const TEXT_STROKE_PROPERTIES = ["color", "width"];
+const TEXT_SHADOW_PROPERTIES = ["color", "offsetX", "offsetY", "blur"];
+const FILL_TYPES = ["SOLID", "GRADIENT_LINEAR", "GRADIENT_RADIAL", "IMAGE"];
+const IMAGE_SCALE_MODES = ["FILL", "FIT", "TILE"];
+const FILL_PROPERTIES: Record<string, string[]> = {
+  SOLID: ["type", "color", "opacity"],
+  GRADIENT_LINEAR: ["type", "stops", "angle", "opacity"],
+  GRADIENT_RADIAL: ["type", "stops", "opacity"],
+  IMAGE: ["type", "imageUrl", "scaleMode", "opacity"],
+};
+const GRADIENT_STOP_PROPERTIES = ["position", "color"];
+const LINE_BACKGROUND_PROPERTIES = [
+  "color",
+  "paddingX",
+  "paddingY",
+  "cornerRadius",
+];
+
+const NODE_PROPERTIES = new Set<string>([
+  "id",
+  "type",
+  "layoutMode",
+  "children",
+  "width",
+  "height",
+  "padding",
+  "itemSpacing",
+  "primaryAxisAlign",
+  "counterAxisAlign",
+  "grow",
+  "shrink",
+  "basis",
+  "x",
+  "y",
+  "absolute",
+  "backgroundColor",
+  "fills",
+  "cornerRadius",
+  "clipsContent",
+  "opacity",
+  "text",
+  "spans",
+  "textColor",
+  "fontSize",
+  "fontName",
+  "fontWeight",
+  "lineHeight",
+  "letterSpacing",
+  "textAlign",
+  "textAlignVertical",
+  "leadingTrim",
+  "textDirection",
+  "wrap",
+  "maxLines",
+  "textOverflow",
+  "minFontSize",
+  "wordBreak",
+  "normalize",
+  "digits",
+  "textStroke",
+  "textShadow",
+  "textDecoration",
+  "lineBackground",
+  "imageUrl",
+]);
+
+const SPAN_PROPERTIES = new Set<string>([
+  "text",
+  "color",
+  "fontWeight",
+  "fontName",
+  "fontSize",
+  "link",
+]);
+
+const LINK_PROTOCOLS = new Set(["http:", "https:", "mailto:"]);
+
+const DIMENSION_KEYWORDS = new Set(["auto", "hug", "fill"]);
+
+const colorProbe = createCanvas(1, 1).getContext("2d");
+
+type SceneValidationModeSuccess = { ok: true; mode: SceneValidationMode };
+
+type SceneValidationModeFailure = { ok: false; error: string };
+
+export type SceneValidationModeResult =
+  | SceneValidationModeSuccess
+  | SceneValidationModeFailure;
+
+export function resolveValidationMode(
+  input: unknown
+): SceneValidationModeResult {
+  if (input === undefined) {
+    return { ok: true, mode: DEFAULT_VALIDATION_MODE };
+  }
+  const value = typeof input === "string" ? input.trim().toLowerCase() : "";
+  const mode = VALIDATION_MODES.find((candidate) => candidate === value);
+  if (!mode) {
+    return {
+      ok: false,
+      error: `Unsupported 'validation'. Available options: ${VALIDATION_MODES.join(
+        ", "
+      )}.`,
+    };
+  }
+  return { ok: true, mode };
+}
+
+// The canvas ignores unparsable colors, so a value is valid when it replaces
+// both of two different sentinel styles.
+export function isValidColor(value: string): boolean {
+  colorProbe.fillStyle = "#010203";
+  colorProbe.fillStyle = value;
+  const first = colorProbe.fillStyle;
+  colorProbe.fillStyle = "#040506";
+  colorProbe.fillStyle = value;
+  return !(first === "#010203" && colorProbe.fillStyle === "#040506");
+}
+
+function isDimension(value: unknown): boolean {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0;
+  }
+  if (typeof value !== "string") {
+    return false;
+  }
+  const trimmed = value.trim().toLowerCase();
+  if (DIMENSION_KEYWORDS.has(trimmed)) {
+    return true;
+  }
+  if (trimmed.endsWith("%")) {
+    const percent = Number(trimmed.slice(0, -1));
+    return trimmed.length > 1 && Number.isFinite(percent) && percent >= 0;
+  }
+  const numeric = Number(trimmed);
+  return trimmed !== "" && Number.isFinite(numeric) && numeric >= 0;
+}
+
+function addIssue(
+  issues: SceneValidationIssue[],
+  path: string,
+  code: SceneIssueCode,
+  message: string
+) {
+  issues.push({ path, code, message });
+}
+
+interface NumberRange {
+  min?: number;
+  max?: number;
+  exclusiveMin?: boolean;
+  integer?: boolean;
+}
+
+function checkNumber(
+  issues: SceneValidationIssue[],
+  node: Record<string, unknown>,
+  key: string,
+  path: string,
+  range: NumberRange = {}
+) {
+  const value = node[key];
+  if (value === undefined) return;
+  const fieldPath = `${path}.${key}`;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    addIssue(
+      issues,
+      fieldPath,
+      "invalid_type",
+      `'${key}' must be a finite number.`
+    );
+    return;
+  }
+  if (range.integer && !Number.isInteger(value)) {
+    addIssue(issues, fieldPath, "invalid_type", `'${key}' must be an integer.`);
+    return;
+  }
+  const belowMin =
+    range.min !== undefined &&
+    (range.exclusiveMin ? value <= range.min : value < range.min);
+  const aboveMax = range.max !== undefined && value > range.max;
+  if (belowMin || aboveMax) {
+    const bounds: string[] = [];
+    if (range.min !== undefined) {
+      bounds.push(
+        `${range.exclusiveMin ? "greater than" : "at least"} ${range.min}`
+      );
+    }
+    if (range.max !== undefined) {
+      bounds.push(`at most ${range.max}`);
+    }
+    addIssue(
+      issues,
+      fieldPath,
+      "out_of_range",
+      `'${key}' must be ${bounds.join(" and ")}.`
+    );
+  }
+}
+
+function checkBoolean(
+  issues: SceneValidationIssue[],
+  node: Record<string, unknown>,
+  key: string,
+  path: string
+) {
+  const value = node[key];
+  if (value !== undefined && typeof value !== "boolean") {
+    addIssue(
+      issues,
+      `${path}.${key}`,
+      "invalid_type",
+      `'${key}' must be a boolean.`
+    );
+  }
+}
+
+function checkString(
+  issues: SceneValidationIssue[],
+  node: Record<string, unknown>,
+  key: string,
+  path: string
+) {
+  const value = node[key];
+  if (value !== undefined && typeof value !== "string") {
+    addIssue(
+      issues,
+      `${path}.${key}`,
+      "invalid_type",
+      `'${key}' must be a string.`
+    );
+  }
+}
+
+function checkEnum(
+  issues: SceneValidationIssue[],
+  node: Record<string, unknown>,
+  key: string,
+  path: string,
+  options: string[]
+) {
+  const value = node[key];
+  if (value === undefined) return;
+  if (
+    typeof value !== "string" ||
+    !options.includes(value.trim().toUpperCase())
+  ) {
+    addIssue(
+      issues,
+      `${path}.${key}`,
+      "invalid_value",
+      `'${key}' must be one of: ${options.join(", ")}.`
+    );
+  }
+}
+
+function checkColor(
+  issues: SceneValidationIssue[],
+  node: Record<string, unknown>,
+  key: string,
+  path: string
+) {
+  const value = node[key];
+  if (value === undefined) return;
+  if (typeof value !== "string") {
+    addIssue(
+      issues,
+      `${path}.${key}`,
+      "invalid_type",
+      `'${key}' must be a string.`
+    );
+    return;
+  }
+  if (!isValidColor(value)) {
+    addIssue(
+      issues,
+      `${path}.${key}`,
+      "invalid_color",
+      `'${key}' is not a valid CSS color.`
+    );
+  }
+}
+
+function checkDimension(
+  issues: SceneValidationIssue[],
+  node: Record<string, unknown>,
+  key: string,
+  path: string
+) {
+  const value = node[key];
+  if (value !== undefined && !isDimension(value)) {
+    addIssue(
+      issues,
+      `${path}.${key}`,
+      "invalid_dimension",
+      `'${key}' must be a non-negative number, a percentage, 'auto', 'hug' or 'fill'.`
+    );
+  }
+}
+
+function validatePadding(
+  issues: SceneValidationIssue[],
+  padding: unknown,
+  path: string
+) {
+  if (padding === undefined) return;
+  if (typeof padding === "number") {
+    checkNumber(issues, { padding }, "padding", path, { min: 0 });
+    return;
+  }
+  if (!padding || typeof padding !== "object" || Array.isArray(padding)) {
+    addIssue(
+      issues,
+      `${path}.padding`,
+      "invalid_type",
+      "'padding' must be a number or an object with top, right, bottom and left."
+    );
+    return;
+  }
+  const sides = padding as Record<string, unknown>;
+  for (const key of Object.keys(sides)) {
+    if (!PADDING_SIDES.includes(key)) {
+      addIssue(
+        issues,
+        `${path}.padding.${key}`,
+        "unknown_property",
+        `Unknown padding side '${key}'.`
+      );
+    }
+  }
+  for (const side of PADDING_SIDES) {
+    checkNumber(issues, sides, side, `${path}.padding`, { min: 0 });
+  }
+}
+
+// Only these protocols are written into SVG and PDF output.
+export function isValidLink(value: string): boolean {
+  try {
+    return LINK_PROTOCOLS.has(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function validateSpans(
+  issues: SceneValidationIssue[],
+  node: Record<string, unknown>,
+  path: string
+) {
+  const spans = node.spans;
+  if (spans === undefined) return;
+  if (!Array.isArray(spans)) {
+    addIssue(
+      issues,
+      `${path}.spans`,
+      "invalid_type",
+      "'spans' must be an array."
+    );
+    return;
+  }
+  spans.forEach((input, index) => {
+    const spanPath = `${path}.spans[${index}]`;
+    if (!input || typeof input !== "object" || Array.isArray(input)) {
+      addIssue(issues, spanPath, "invalid_type", "Span must be an object.");
+      return;
+    }
+    const span = input as Record<string, unknown>;
+    for (const key of Object.keys(span)) {
+      if (!SPAN_PROPERTIES.has(key)) {
+        addIssue(
+          issues,
+          `${spanPath}.${key}`,
+          "unknown_property",
+          `Unknown span property '${key}'.`
+        );
+      }
+    }
+    if (span.text === undefined) {
+      addIssue(
+        issues,
+        `${spanPath}.text`,
+        "required",
+        "Spans must define 'text'."
+      );
+    }
+    checkString(issues, span, "text", spanPath);
+    checkColor(issues, span, "color", spanPath);
+    checkNumber(issues, span, "fontSize", spanPath, {
+      min: 0,
+      exclusiveMin: true,
+    });
+    checkString(issues, span, "link", spanPath);
+    if (typeof span.link === "string" && !isValidLink(span.link)) {
+      addIssue(
+        issues,
+        `${spanPath}.link`,
+        "invalid_value",
+        "'link' must be an absolute http, https or mailto URL."
+      );
+    }
+    // Spans inherit whichever of the node's font settings they leave out.
+    if (span.fontName !== undefined || span.fontWeight !== undefined) {
+      validateFont(
+        issues,
+        span.fontName ?? node.fontName,
+        span.fontWeight ?? node.fontWeight,
+        `${spanPath}.${span.fontName !== undefined ? "fontName" : "fontWeight"}`
+      );
+    }
+  });
+}
+
+function validateTextStroke(
+  issues: SceneValidationIssue[],
+  textStroke: unknown,
+  path: string
+) {
+  if (textStroke === undefined) return;
+  const strokePath = `${path}.textStroke`;
+  if (
+    !textStroke ||
+    typeof textStroke !== "object" ||
+    Array.isArray(textStroke)
+  ) {
+    addIssue(
+      issues,
+      strokePath,
+      "invalid_type",
+      "'textStroke' must be an object with color and width."
+    );
+    return;
+  }
+  const stroke = textStroke as Record<string, unknown>;
+  for (const key of Object.keys(stroke)) {
+    if (!TEXT_STROKE_PROPERTIES.includes(key)) {
+      addIssue(
+        issues,
+        `${strokePath}.${key}`,
+        "unknown_property",
+        `Unknown textStroke property '${key}'.`
+      );
+    }
+  }
+  for (const key of TEXT_STROKE_PROPERTIES) {
+    if (stroke[key] === undefined) {
+      addIssue(
+        issues,
+        `${strokePath}.${key}`,
+        "required",
+        `'textStroke' must define '${key}'.`
+      );
+    }
+  }
+  checkColor(issues, stroke, "color", strokePath);
+  checkNumber(issues, stroke, "width", strokePath, {
+    min: 0,
+    exclusiveMin: true,
+  });
+}
+
+function validateTextShadows(
+  issues: SceneValidationIssue[],
+  textShadow: unknown,
+  path: string
+) {
+  if (textShadow === undefined) return;
+  if (!Array.isArray(textShadow)) {
+    addIssue(
+      issues,
+      `${path}.textShadow`,
+      "invalid_type",
+      "'textShadow' must be an array."
+    );
+    return;
+  }
+  if (textShadow.length > MAX_TEXT_SHADOWS) {
+    addIssue(
+      issues,
+      `${path}.textShadow`,
+      "out_of_range",
+      `'textShadow' can contain at most ${MAX_TEXT_SHADOWS} shadows.`
+    );
+  }
+  textShadow.forEach((input, index) => {
+    const shadowPath = `${path}.textShadow[${index}]`;
+    if (!input || typeof input !== "object" || Array.isArray(input)) {
+      addIssue(issues, shadowPath, "invalid_type", "Shadow must be an object.");
+      return;
+    }
+    const shadow = input as Record<string, unknown>;
+    for (const key of Object.keys(shadow)) {
+      if (!TEXT_SHADOW_PROPERTIES.includes(key)) {
+        addIssue(
+          issues,
+          `${shadowPath}.${key}`,
+          "unknown_property",
+          `Unknown shadow property '${key}'.`
+        );
+      }
+    }
+    if (shadow.color === undefined) {
+      addIssue(
+        issues,
+        `${shadowPath}.color`,
+        "required",
+        "Shadows must define 'color'."
+      );
+    }
+    checkColor(issues, shadow, "color", shadowPath);
+    checkNumber(issues, shadow, "offsetX", shadowPath);
+    checkNumber(issues, shadow, "offsetY", shadowPath);
+    checkNumber(issues, shadow, "blur", shadowPath, { min: 0 });
+  });
+}
+
+function validateLineBackground(
+  issues: SceneValidationIssue[],
+  lineBackground: unknown,
+  path: string
+) {
+  if (lineBackground === undefined) return;
+  const backgroundPath = `${path}.lineBackground`;
+  if (
+    !lineBackground ||
+    typeof lineBackground !== "object" ||
+    Array.isArray(lineBackground)
+  ) {
+    addIssue(
+      issues,
+      backgroundPath,
+      "invalid_type",
+      "'lineBackground' must be an object with a color."
+    );
+    return;
+  }
+  const background = lineBackground as Record<string, unknown>;
+  for (const key of Object.keys(background)) {
+    if (!LINE_BACKGROUND_PROPERTIES.includes(key)) {
+      addIssue(
+        issues,
+        `${backgroundPath}.${key}`,
+        "unknown_property",
+        `Unknown lineBackground property '${key}'.`
+      );
+    }
+  }
+  if (background.color === undefined) {
+    addIssue(
+      issues,
+      `${backgroundPath}.color`,
+      "required",
+      "'lineBackground' must define 'color'."
+    );
+  }
+  checkColor(issues, background, "color", backgroundPath);
+  checkNumber(issues, background, "paddingX", backgroundPath, { min: 0 });
+  checkNumber(issues, background, "paddingY", backgroundPath, { min: 0 });
+  checkNumber(issues, background, "cornerRadius", backgroundPath, { min: 0 });
+}
+
+function validateGradientStops(
+  issues: SceneValidationIssue[],
+  stops: unknown,
+  fillPath: string
+) {
+  if (!Array.isArray(stops) || stops.length < 2) {
+    addIssue(
+      issues,
+      `${fillPath}.stops`,
+      stops === undefined ? "required" : "invalid_type",
+      "Gradients must define 'stops' as an array of at least 2 stops."
+    );
+    return;
+  }
+  stops.forEach((input, index) => {
+    const stopPath = `${fillPath}.stops[${index}]`;
+    if (!input || typeof input !== "object" || Array.isArray(input)) {
+      addIssue(issues, stopPath, "invalid_type", "Stop must be an object.");
+      return;
+    }
+    const stop = input as Record<string, unknown>;
+    for (const key of Object.keys(stop)) {
+      if (!GRADIENT_STOP_PROPERTIES.includes(key)) {
+        addIssue(
+          issues,
+          `${stopPath}.${key}`,
+          "unknown_property",
+          `Unknown stop property '${key}'.`
+        );
+      }
+    }
+    if (stop.color === undefined) {
+      addIssue(
+        issues,
+        `${stopPath}.color`,
+        "required",
+        "Stops must define 'color'."
+      );
+    }
+    checkColor(issues, stop, "color", stopPath);
+    checkNumber(issues, stop, "position", stopPath, { min: 0, max: 1 });
+  });
+}
+
+function validateFills(
+  issues: SceneValidationIssue[],
+  fills: unknown,
+  path: string
+) {
+  if (fills === undefined) return;
+  if (!Array.isArray(fills)) {
+    addIssue(
+      issues,
+      `${path}.fills`,
+      "invalid_type",
+      "'fills' must be an array."
+    );
+    return;
+  }
+  fills.forEach((input, index) => {
+    const fillPath = `${path}.fills[${index}]`;
+    if (!input || typeof input !== "object" || Array.isArray(input)) {
+      addIssue(issues, fillPath, "invalid_type", "Fill must be an object.");
+      return;
+    }
+    const fill = input as Record<string, unknown>;
+    const type =
+      typeof fill.type === "string" ? fill.type.trim().toUpperCase() : "";
+    if (fill.type === undefined) {
+      addIssue(
+        issues,
+        `${fillPath}.type`,
+        "required",
+        "Fills must define 'type'."
+      );
+      return;
+    }
+    checkEnum(issues, fill, "type", fillPath, FILL_TYPES);
+    const properties = FILL_PROPERTIES[type];
+    if (!properties) return;
+    for (const key of Object.keys(fill)) {
+      if (!properties.includes(key)) {
+        addIssue(
+          issues,
+          `${fillPath}.${key}`,
+          "unknown_property",
+          `Unknown ${type} fill property '${key}'.`
+        );
+      }
+    }
+    checkNumber(issues, fill, "opacity", fillPath, { min: 0, max: 1 });
+    if (type === "SOLID") {
+      if (fill.color === undefined) {
+        addIssue(
+          issues,
+          `${fillPath}.color`,
+          "required",
+          "SOLID fills must define 'color'."
+        );
+      }
+      checkColor(issues, fill, "color", fillPath);
+    } else if (type === "IMAGE") {
+      if (typeof fill.imageUrl !== "string") {
+        addIssue(
+          issues,
+          `${fillPath}.imageUrl`,
+          "required",
+          "IMAGE fills must define 'imageUrl'."
+        );
+      }
+      checkEnum(issues, fill, "scaleMode", fillPath, IMAGE_SCALE_MODES);
+    } else {
+      validateGradientStops(issues, fill.stops, fillPath);
+      checkNumber(issues, fill, "angle", fillPath);
+    }
+  });
+}
+
+function validateFont(
+  issues: SceneValidationIssue[],
+  fontName: unknown,
+  fontWeight: unknown,
+  fieldPath: string
+) {
+  const fontResolution = resolveFontRequest(fontName, fontWeight);
+  if (!fontResolution.ok) {
+    addIssue(issues, fieldPath, "invalid_font", fontResolution.error);
+  }
+}
+
+function validateNode(
+  issues: SceneValidationIssue[],
+  input: unknown,
+  path: string
+) {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    addIssue(issues, path, "invalid_type", "Scene node must be an object.");
+    return;
+  }
+  const node = input as Record<string, unknown>;
+
+  for (const key of Object.keys(node)) {
+    if (!NODE_PROPERTIES.has(key)) {
+      addIssue(
+        issues,
+        `${path}.${key}`,
+        "unknown_property",
+        `Unknown property '${key}'.`
+      );
+    }
+  }
+
+  checkString(issues, node, "id", path);
+  checkEnum(issues, node, "type", path, NODE_TYPES);
+  checkEnum(issues, node, "layoutMode", path, LAYOUT_MODES);
+  checkEnum(issues, node, "primaryAxisAlign", path, PRIMARY_AXIS_ALIGNS);
+  checkEnum(issues, node, "counterAxisAlign", path, COUNTER_AXIS_ALIGNS);
+  checkEnum(issues, node, "textAlign", path, TEXT_ALIGNS);
+  checkEnum(issues, node, "textAlignVertical", path, TEXT_ALIGN_VERTICALS);
+  checkEnum(issues, node, "leadingTrim", path, LEADING_TRIMS);
+  checkEnum(issues, node, "textDirection", path, TEXT_DIRECTIONS);
+  checkEnum(issues, node, "textOverflow", path, TEXT_OVERFLOWS);
+  checkEnum(issues, node, "wordBreak", path, WORD_BREAKS);
+  checkEnum(issues, node, "digits", path, TEXT_DIGITS);
+  checkEnum(issues, node, "textDecoration", path, TEXT_DECORATIONS);
+
+  checkDimension(issues, node, "width", path);
+  checkDimension(issues, node, "height", path);
+  checkDimension(issues, node, "basis", path);
+  validatePadding(issues, node.padding, path);
+
+  checkNumber(issues, node, "itemSpacing", path, { min: 0 });
+  checkNumber(issues, node, "grow", path, { min: 0 });
+  checkNumber(issues, node, "shrink", path, { min: 0 });
+  checkNumber(issues, node, "x", path);
+  checkNumber(issues, node, "y", path);
+  checkNumber(issues, node, "cornerRadius", path, { min: 0 });
+  checkNumber(issues, node, "opacity", path, { min: 0, max: 1 });
+  checkNumber(issues, node, "fontSize", path, { min: 0, exclusiveMin: true });
+  checkNumber(issues, node, "lineHeight", path, { min: 0, exclusiveMin: true });
+  checkNumber(issues, node, "letterSpacing", path);
+  checkNumber(issues, node, "maxLines", path, { min: 1, integer: true });
+  checkNumber(issues, node, "minFontSize", path, {
+    min: 0,
+    exclusiveMin: true,
+  });
+
+  checkBoolean(issues, node, "absolute", path);
+  checkBoolean(issues, node, "clipsContent", path);
+  checkBoolean(issues, node, "wrap", path);
+  checkBoolean(issues, node, "normalize", path);
+  checkString(issues, node, "text", path);
+  checkString(issues, node, "imageUrl", path);
+  checkColor(issues, node, "backgroundColor", path);
+  checkColor(issues, node, "textColor", path);
+
+  if (node.fontName !== undefined || node.fontWeight !== undefined) {
+    validateFont(
+      issues,
+      node.fontName,
+      node.fontWeight,
+      `${path}.${node.fontName !== undefined ? "fontName" : "fontWeight"}`
+    );
+  }
+  validateSpans(issues, node, path);
+  validateTextStroke(issues, node.textStroke, path);
+  validateTextShadows(issues, node.textShadow, path);
+  validateLineBackground(issues, node.lineBackground, path);
+  validateFills(issues, node.fills, path);
+  if (node.text !== undefined && node.spans !== undefined) {
+    addIssue(
+      issues,
+      `${path}.spans`,
+      "invalid_value",
+      "Use either 'text' or 'spans', not both."
+    );
+  }
+
+  const type =
+    typeof node.type === "string" ? node.type.trim().toUpperCase() : "FRAME";
+  if (type === "IMAGE" && typeof node.imageUrl !== "string") {
+    addIssue(
+      issues,
+      `${path}.imageUrl`,
+      "required",
+      "IMAGE nodes must define 'imageUrl'."
+    );
+  }
+
+  if (node.children !== undefined) {
+    if (!Array.isArray(node.children)) {
+      addIssue(
+        issues,
+        `${path}.children`,
+        "invalid_type",
+        "'children' must be an array."
+      );
+    } else {
+      node.children.forEach((child, index) =>
+        validateNode(issues, child, `${path}.children[${index}]`)
+      );
+    }
+  }
+}
+
+function validateRootSize(
+  issues: SceneValidationIssue[],
+  root: SceneNodeInput,
+  path: string
+) {
+  for (const key of ["width", "height"] as const) {
+    const value = root[key];
+    if (value === undefined) {
+      addIssue(
+        issues,
+        `${path}.${key}`,
+        "required",
+        `Root scene frame must define a numeric ${key}.`
+      );
+      continue;
+    }
+    // Invalid values were already reported by the node pass.
+    if (isDimension(value) && !Number.isFinite(Number(value))) {
+      addIssue(
+        issues,
+        `${path}.${key}`,
+        "invalid_dimension",
+        `Root scene frame must define a numeric ${key}.`
+      );
+    }
+  }
+}
+
+// Collects every problem in the submitted scene instead of stopping at the
+// first one, so clients can fix a document in a single round trip.
+export function validateScenePages(
+  pages: { path: string; node: SceneNodeInput }[],
+  master: { path: string; node: SceneNodeInput }[]
+): SceneValidationIssue[] {
+  const issues: SceneValidationIssue[] = [];
+  for (const { path, node } of pages) {
+    validateNode(issues, node, path);
+    validateRootSize(issues, node, path);
+  }
+  for (const { path, node } of master) {
+    validateNode(issues, node, path);
+  }
+  return issues;
+}
+
+export function assertValidScenePages(
+  pages: { path: string; node: SceneNodeInput }[],
+  master: { path: string; node: SceneNodeInput }[]
+) {
+  const issues = validateScenePages(pages, master);
+  if (issues.length > 0) {
+    throw new SceneSchemaError(issues);
+  }
+}
@@ -1,9 +1,14 @@
 import { createApp } from "./app.js";
+import { fontStore } from "./services/fonts.js";
 
 const app = createApp();
 const PORT = Number(process.env.PORT) || 3000;
 
+const fonts = await fontStore.load();
+if (fonts.length > 0) {
+  console.log(`Registered ${fonts.length} uploaded font file(s)`);
+}
+
 app.listen(PORT, () => {
   console.log(`Express server listening on port ${PORT}`);
 });
-
@@ -0,0 +1,255 @@
+import "../config/env.js";
+import JSZip from "jszip";
+import { deliverRenderJob } from "./delivery.js";
+import {
+  describeRenderError,
+  prepareRenderJob,
+  RENDER_JOB_TYPES,
+  runRenderJob,
+  type RenderFailure,
+  type RenderJobResult,
+  type RenderJobType,
+} from "./render.js";
+
+export type BatchOutput = "results" | "zip";
+
+const BATCH_OUTPUTS: BatchOutput[] = ["results", "zip"];
+
+const BATCH_JOB_ID_PATTERN = /^(?!\.+$)[A-Za-z0-9._-]{1,64}$/;
+
+export const MAX_BATCH_JOBS = 500;
+
+export const MAX_BATCH_CONCURRENCY = 16;
+
+export const DEFAULT_BATCH_CONCURRENCY = Math.min(
+  Math.max(parseInt(process.env.BATCH_CONCURRENCY ?? "", 10) || 4, 1),
+  MAX_BATCH_CONCURRENCY
+);
+
+export interface BatchJob {
+  id: string;
+  type: RenderJobType;
+  body: Record<string, any>;
+}
+
+export interface BatchRequest {
+  jobs: BatchJob[];
+  output: BatchOutput;
+  concurrency: number;
+}
+
+type BatchRequestSuccess = { ok: true; request: BatchRequest };
+
+type BatchRequestFailure = { ok: false; error: string };
+
+export type BatchRequestResult = BatchRequestSuccess | BatchRequestFailure;
+
+export type BatchJobFailure = { ok: false } & RenderFailure;
+
+export type BatchJobOutcome =
+  | { ok: true; result: RenderJobResult }
+  | BatchJobFailure;
+
+export function parseBatchRequest(body: Record<string, any>): BatchRequestResult {
+  if (!Array.isArray(body.jobs) || body.jobs.length === 0) {
+    return { ok: false, error: "'jobs' must be a non-empty array." };
+  }
+  if (body.jobs.length > MAX_BATCH_JOBS) {
+    return {
+      ok: false,
+      error: `'jobs' cannot contain more than ${MAX_BATCH_JOBS} entries.`,
+    };
+  }
+
+  const outputValue =
+    body.output === undefined
+      ? "results"
+      : typeof body.output === "string"
+      ? body.output.trim().toLowerCase()
+      : "";
+  const output = BATCH_OUTPUTS.find((candidate) => candidate === outputValue);
+  if (!output) {
+    return {
+      ok: false,
+      error: `Unsupported 'output'. Available options: ${BATCH_OUTPUTS.join(
+        ", "
+      )}.`,
+    };
+  }
+
+  let concurrency = DEFAULT_BATCH_CONCURRENCY;
+  if (body.concurrency !== undefined) {
+    const parsed = Number(body.concurrency);
+    if (
+      !Number.isInteger(parsed) ||
+      parsed < 1 ||
+      parsed > MAX_BATCH_CONCURRENCY
+    ) {
+      return {
+        ok: false,
+        error: `'concurrency' must be an integer between 1 and ${MAX_BATCH_CONCURRENCY}.`,
+      };
+    }
+    concurrency = parsed;
+  }
+
+  const jobs: BatchJob[] = [];
+  const seenIds = new Set<string>();
+  for (let index = 0; index < body.jobs.length; index++) {
+    const entry = body.jobs[index];
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      return { ok: false, error: `'jobs[${index}]' must be an object.` };
+    }
+
+    const typeValue =
+      typeof entry.type === "string" ? entry.type.trim().toLowerCase() : "";
+    const type = RENDER_JOB_TYPES.find((candidate) => candidate === typeValue);
+    if (!type) {
+      return {
+        ok: false,
+        error: `'jobs[${index}].type' must be one of: ${RENDER_JOB_TYPES.join(
+          ", "
+        )}.`,
+      };
+    }
+
+    const id = entry.id === undefined ? `job-${index + 1}` : entry.id;
+    if (typeof id !== "string" || !BATCH_JOB_ID_PATTERN.test(id)) {
+      return {
+        ok: false,
+        error: `'jobs[${index}].id' must be 1-64 letters, digits, '.', '_' or '-'.`,
+      };
+    }
+    if (seenIds.has(id)) {
+      return { ok: false, error: `Duplicate job id '${id}'.` };
+    }
+    seenIds.add(id);
+
+    const jobBody = entry.body ?? {};
+    if (!jobBody || typeof jobBody !== "object" || Array.isArray(jobBody)) {
+      return { ok: false, error: `'jobs[${index}].body' must be an object.` };
+    }
+    jobs.push({ id, type, body: jobBody });
+  }
+
+  return { ok: true, request: { jobs, output, concurrency } };
+}
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  async function runWorker() {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index] as T, index);
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, runWorker)
+  );
+  return results;
+}
+
+// Each job is isolated: a thrown error becomes that job's failure outcome
+// instead of rejecting the whole batch.
+export async function runBatchJob(job: BatchJob): Promise<BatchJobOutcome> {
+  try {
+    return { ok: true, result: await runRenderJob(job.type, job.body) };
+  } catch (error) {
+    const failure: BatchJobFailure = {
+      ok: false,
+      ...describeRenderError(error),
+    };
+    if (failure.status >= 500) {
+      console.error(`Batch job '${job.id}' failed:`, error);
+    }
+    return failure;
+  }
+}
+
+export async function deliverBatchJob(
+  job: BatchJob
+): Promise<Record<string, unknown>> {
+  try {
+    const prepared = prepareRenderJob(job.type, job.body);
+    if (prepared.delivery === "inline") {
+      return {
+        id: job.id,
+        type: job.type,
+        ok: false,
+        status: 400,
+        error:
+          "Inline delivery is not available for batch jobs. Use 'base64' or 'upload', or request 'zip' output.",
+      };
+    }
+
+    const { delivered, cacheStatus } = await deliverRenderJob(
+      prepared,
+      prepared.delivery
+    );
+    return {
+      id: job.id,
+      type: job.type,
+      ok: true,
+      cache: cacheStatus,
+      ...delivered,
+      ...prepared.metadata,
+    };
+  } catch (error) {
+    const failure = describeRenderError(error);
+    if (failure.status >= 500) {
+      console.error(`Batch job '${job.id}' failed:`, error);
+    }
+    return { id: job.id, type: job.type, ok: false, ...failure };
+  }
+}
+
+export async function buildBatchArchive(
+  jobs: BatchJob[],
+  outcomes: BatchJobOutcome[]
+): Promise<Buffer> {
+  const zip = new JSZip();
+  const manifest = jobs.map((job, index) => {
+    const outcome = outcomes[index];
+    if (!outcome || !outcome.ok) {
+      return {
+        id: job.id,
+        type: job.type,
+        ...(outcome ?? { ok: false, ...describeRenderError(undefined) }),
+      };
+    }
+    const paths = outcome.result.files.map((file) => {
+      const path = `${job.id}/${file.filename}`;
+      zip.file(path, file.buffer);
+      return path;
+    });
+    return {
+      id: job.id,
+      type: job.type,
+      ok: true,
+      files: paths,
+      ...outcome.result.metadata,
+    };
+  });
+
+  zip.file(
+    "manifest.json",
+    JSON.stringify(
+      {
+        jobCount: jobs.length,
+        succeeded: manifest.filter((entry) => entry.ok).length,
+        failed: manifest.filter((entry) => !entry.ok).length,
+        jobs: manifest,
+      },
+      null,
+      2
+    )
+  );
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
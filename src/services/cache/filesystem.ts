@@ -0,0 +1,41 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { join } from "path";
+import { type RenderCacheEntry, type RenderCacheStore } from "./types.js";
+
+const CACHE_KEY_PATTERN = /^[a-f0-9]{64}$/;
+
+export function createFilesystemRenderCache(
+  directory: string
+): RenderCacheStore {
+  function entryPath(key: string) {
+    if (!CACHE_KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid render cache key '${key}'`);
+    }
+    return join(directory, `${key}.json`);
+  }
+
+  return {
+    name: "filesystem",
+
+    async get(key) {
+      try {
+        return JSON.parse(
+          await readFile(entryPath(key), "utf-8")
+        ) as RenderCacheEntry;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          console.error(`Failed to read render cache entry '${key}':`, error);
+        }
+        return undefined;
+      }
+    },
+
+    async set(key, entry) {
+      const filePath = entryPath(key);
+      await mkdir(directory, { recursive: true });
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(entry));
+      await rename(tempPath, filePath);
+    },
+  };
+}
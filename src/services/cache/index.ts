@@ -0,0 +1,102 @@
+import "../../config/env.js";
+import { createHash } from "crypto";
+import { resolve } from "path";
+import { createFilesystemRenderCache } from "./filesystem.js";
+import { createMemoryRenderCache } from "./memory.js";
+import { type CachedDelivery, type RenderCacheStore } from "./types.js";
+
+export type {
+  CachedDelivery,
+  RenderCacheEntry,
+  RenderCacheStatus,
+  RenderCacheStore,
+} from "./types.js";
+
+const RENDER_CACHE_STORES = ["memory", "filesystem", "none"] as const;
+
+const RENDER_CACHE_TTL_MS =
+  Math.max(Number(process.env.RENDER_CACHE_TTL_MINUTES) || 0, 0) * 60 * 1000;
+
+function createRenderCacheStore(input?: string): RenderCacheStore | null {
+  const value = (input || "memory").trim().toLowerCase();
+  const name = RENDER_CACHE_STORES.find((candidate) => candidate === value);
+  if (!name) {
+    throw new Error(
+      `Unsupported render cache '${value}' in RENDER_CACHE. Available options: ${RENDER_CACHE_STORES.join(
+        ", "
+      )}.`
+    );
+  }
+  if (name === "none") {
+    return null;
+  }
+  if (name === "filesystem") {
+    return createFilesystemRenderCache(
+      resolve(process.cwd(), process.env.RENDER_CACHE_DIR || "data/render-cache")
+    );
+  }
+  return createMemoryRenderCache(
+    Math.max(Number(process.env.RENDER_CACHE_MAX_ENTRIES) || 1000, 1)
+  );
+}
+
+const renderCache = createRenderCacheStore(process.env.RENDER_CACHE);
+
+// Serializes with sorted object keys so equivalent requests hash identically
+// regardless of the property order clients send.
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export function createRenderCacheKey(value: unknown): string {
+  return createHash("sha256").update(stableStringify(value)).digest("hex");
+}
+
+export function isRenderCacheEnabled() {
+  return renderCache !== null;
+}
+
+export async function getCachedDelivery(
+  key: string
+): Promise<CachedDelivery | undefined> {
+  if (!renderCache) return undefined;
+  try {
+    const entry = await renderCache.get(key);
+    if (!entry) return undefined;
+    if (
+      RENDER_CACHE_TTL_MS > 0 &&
+      Date.now() - Date.parse(entry.createdAt) > RENDER_CACHE_TTL_MS
+    ) {
+      return undefined;
+    }
+    return entry.delivered;
+  } catch (error) {
+    console.error("Render cache lookup failed:", error);
+    return undefined;
+  }
+}
+
+export async function storeCachedDelivery(
+  key: string,
+  delivered: CachedDelivery
+) {
+  if (!renderCache) return;
+  try {
+    await renderCache.set(key, {
+      delivered,
+      createdAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Render cache write failed:", error);
+  }
+}
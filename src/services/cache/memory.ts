@@ -0,0 +1,29 @@
+import { type RenderCacheEntry, type RenderCacheStore } from "./types.js";
+
+export function createMemoryRenderCache(maxEntries: number): RenderCacheStore {
+  const entries = new Map<string, RenderCacheEntry>();
+
+  return {
+    name: "memory",
+
+    async get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        // Re-insert so the Map iteration order tracks recent use.
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey === undefined) break;
+        entries.delete(oldestKey);
+      }
+    },
+  };
+}
@@ -0,0 +1,14 @@
+export type RenderCacheStatus = "HIT" | "MISS" | "BYPASS";
+
+export type CachedDelivery = { url: string } | { urls: string[] };
+
+export interface RenderCacheEntry {
+  delivered: CachedDelivery;
+  createdAt: string;
+}
+
+export interface RenderCacheStore {
+  readonly name: string;
+  get(key: string): Promise<RenderCacheEntry | undefined>;
+  set(key: string, entry: RenderCacheEntry): Promise<void>;
+}
@@ -0,0 +1,181 @@
+import express from "express";
+import { UploadError } from "../errors.js";
+import {
+  getCachedDelivery,
+  isRenderCacheEnabled,
+  storeCachedDelivery,
+  type RenderCacheStatus,
+} from "./cache/index.js";
+import { type PreparedRenderJob, type RenderProgressHandler } from "./render.js";
+import { respondUploadError, uploadWithFallback } from "./upload.js";
+
+export type DeliveryMode = "inline" | "base64" | "upload";
+
+const DELIVERY_MODES: DeliveryMode[] = ["inline", "base64", "upload"];
+
+export const DEFAULT_DELIVERY_MODE: DeliveryMode = "upload";
+
+export interface RenderedFile {
+  buffer: Buffer;
+  filename: string;
+  contentType: string;
+}
+
+export interface Base64File {
+  filename: string;
+  contentType: string;
+  data: string;
+}
+
+export type DeliveryPayload =
+  | { url: string }
+  | { urls: string[] }
+  | { file: Base64File }
+  | { files: Base64File[] };
+
+type DeliveryResolutionSuccess = { ok: true; mode: DeliveryMode };
+
+type DeliveryResolutionFailure = { ok: false; error: string };
+
+export type DeliveryResolutionResult =
+  | DeliveryResolutionSuccess
+  | DeliveryResolutionFailure;
+
+export function resolveDeliveryMode(input: unknown): DeliveryResolutionResult {
+  if (input === undefined) {
+    return { ok: true, mode: DEFAULT_DELIVERY_MODE };
+  }
+  const value = typeof input === "string" ? input.trim().toLowerCase() : "";
+  const mode = DELIVERY_MODES.find((candidate) => candidate === value);
+  if (!mode) {
+    return {
+      ok: false,
+      error: `Unsupported 'delivery'. Available options: ${DELIVERY_MODES.join(
+        ", "
+      )}.`,
+    };
+  }
+  return { ok: true, mode };
+}
+
+export function sendInlineFile(res: express.Response, file: RenderedFile) {
+  res.status(200);
+  res.setHeader("Content-Type", file.contentType);
+  res.setHeader(
+    "Content-Disposition",
+    `inline; filename="${file.filename}"`
+  );
+  res.setHeader("Content-Length", String(file.buffer.length));
+  res.end(file.buffer);
+}
+
+export function respondInlineFile(
+  res: express.Response,
+  files: RenderedFile[]
+) {
+  const [file] = files;
+  if (!file || files.length > 1) {
+    res.status(400).json({
+      error:
+        "Inline delivery returns a single file. Use 'base64' or 'upload' delivery, or a combined PDF, for multi-page output.",
+    });
+    return;
+  }
+  sendInlineFile(res, file);
+}
+
+export function encodeBase64File(file: RenderedFile): Base64File {
+  return {
+    filename: file.filename,
+    contentType: file.contentType,
+    data: file.buffer.toString("base64"),
+  };
+}
+
+export async function deliverFiles(
+  files: RenderedFile[],
+  mode: Exclude<DeliveryMode, "inline">,
+  options?: {
+    forceUploadThing?: boolean;
+    onProgress?: RenderProgressHandler | undefined;
+  }
+): Promise<DeliveryPayload> {
+  if (mode === "base64") {
+    const encoded = files.map(encodeBase64File);
+    return encoded.length === 1 && encoded[0]
+      ? { file: encoded[0] }
+      : { files: encoded };
+  }
+
+  const urls: string[] = [];
+  for (const file of files) {
+    urls.push(
+      await uploadWithFallback(file.buffer, file.filename, file.contentType, {
+        forceUploadThing: options?.forceUploadThing === true,
+      })
+    );
+    options?.onProgress?.(urls.length, files.length);
+  }
+  return urls.length === 1 && urls[0] ? { url: urls[0] } : { urls };
+}
+
+export interface DeliveredRenderJob {
+  delivered: DeliveryPayload;
+  cacheStatus: RenderCacheStatus;
+}
+
+// Uploads are content-addressed by the job's cache key, so an identical request
+// reuses the stored URL instead of rendering and uploading again.
+export async function deliverRenderJob(
+  job: PreparedRenderJob,
+  mode: Exclude<DeliveryMode, "inline">,
+  options?: {
+    onRenderProgress?: RenderProgressHandler;
+    onDeliveryProgress?: RenderProgressHandler;
+  }
+): Promise<DeliveredRenderJob> {
+  const cacheable = mode === "upload" && isRenderCacheEnabled();
+  if (cacheable) {
+    const cached = await getCachedDelivery(job.cacheKey);
+    if (cached) {
+      return { delivered: cached, cacheStatus: "HIT" };
+    }
+  }
+
+  const files = await job.render({ onProgress: options?.onRenderProgress });
+  const delivered = await deliverFiles(files, mode, {
+    forceUploadThing: job.useUploadThing,
+    onProgress: options?.onDeliveryProgress,
+  });
+  if (!cacheable) {
+    return { delivered, cacheStatus: "BYPASS" };
+  }
+  if ("url" in delivered || "urls" in delivered) {
+    await storeCachedDelivery(job.cacheKey, delivered);
+  }
+  return { delivered, cacheStatus: "MISS" };
+}
+
+export async function respondWithRenderJob(
+  res: express.Response,
+  job: PreparedRenderJob
+) {
+  if (job.delivery === "inline") {
+    res.setHeader("X-Cache", "BYPASS");
+    respondInlineFile(res, await job.render());
+    return;
+  }
+
+  let result: DeliveredRenderJob;
+  try {
+    result = await deliverRenderJob(job, job.delivery);
+  } catch (error) {
+    if (!(error instanceof UploadError)) {
+      throw error;
+    }
+    respondUploadError(res, error);
+    return;
+  }
+  res.setHeader("X-Cache", result.cacheStatus);
+  res.status(200).json({ ...result.delivered, ...job.metadata });
+}
@@ -0,0 +1,361 @@
+import "../config/env.js";
+import { mkdir, readFile, rename, rm, writeFile } from "fs/promises";
+import fontkit from "@pdf-lib/fontkit";
+import { join, resolve } from "path";
+import { v4 as uuidv4 } from "uuid";
+import {
+  addFontToLibrary,
+  getFontCssWeight,
+  getFontFilePath,
+  getFontWeightAliases,
+  hasFontWeight,
+  isBuiltInFont,
+  isFontName,
+  isSystemFontFamily,
+  listFontFamilies,
+  normalizeFontWeight,
+  setFontFallbacks,
+  FONT_WEIGHT_KEYS,
+  type FontFallbacks,
+  type FontName,
+  type FontWeightKey,
+} from "../config/fonts.js";
+import {
+  FONT_FALLBACK_SCRIPTS,
+  FONT_SCRIPT_PROBES,
+  FONT_SCRIPTS,
+  type FontScript,
+} from "../config/scripts.js";
+import { FontValidationError } from "../errors.js";
+
+export type FontFileFormat = "ttf" | "otf" | "woff2";
+
+export const MAX_FONT_FILE_BYTES = 20 * 1024 * 1024;
+
+const FONT_FAMILY_PATTERN = /^[A-Za-z][A-Za-z0-9-]*( [A-Za-z][A-Za-z0-9-]*)*$/;
+
+export interface StoredFont {
+  family: string;
+  weight: FontWeightKey;
+  fontCssWeight: string;
+  format: FontFileFormat;
+  file: string;
+  createdAt: string;
+}
+
+export interface FontUploadInput {
+  family: unknown;
+  weight: unknown;
+  buffer: Buffer;
+}
+
+export interface FontStore {
+  load(): Promise<StoredFont[]>;
+  save(input: FontUploadInput): Promise<StoredFont>;
+  setFallbacks(fontName: FontName, input: unknown): Promise<FontFallbacks>;
+}
+
+interface FontManifest {
+  fonts: StoredFont[];
+  fallbacks: Record<FontName, FontFallbacks>;
+}
+
+export const MAX_FALLBACK_FAMILIES = 8;
+
+export function detectFontFormat(buffer: Buffer): FontFileFormat | null {
+  if (buffer.length < 4) return null;
+  const signature = buffer.subarray(0, 4);
+  if (signature.equals(Buffer.from([0x00, 0x01, 0x00, 0x00]))) return "ttf";
+  const tag = signature.toString("latin1");
+  if (tag === "true") return "ttf";
+  if (tag === "OTTO") return "otf";
+  if (tag === "wOF2") return "woff2";
+  return null;
+}
+
+function resolveFontFamily(input: unknown): string {
+  if (typeof input !== "string" || !input.trim()) {
+    throw new FontValidationError("'family' must be a non-empty string.");
+  }
+  const family = input.trim().replace(/\s+/g, " ");
+  if (family.length > 64 || !FONT_FAMILY_PATTERN.test(family)) {
+    throw new FontValidationError(
+      "'family' must be at most 64 characters of letters, digits, hyphens and single spaces, with each word starting with a letter."
+    );
+  }
+  return family;
+}
+
+function resolveFallbackFamily(fontName: FontName, input: unknown): string {
+  if (typeof input !== "string" || !input.trim()) {
+    throw new FontValidationError(
+      "Fallback families must be non-empty strings."
+    );
+  }
+  const family = input.trim();
+  if (family === fontName) {
+    throw new FontValidationError(
+      `'${fontName}' cannot be its own fallback.`
+    );
+  }
+  if (!isFontName(family) && !isSystemFontFamily(family)) {
+    throw new FontValidationError(
+      `Unknown fallback family '${family}'. Use a family from GET /fonts or a font installed on the server.`
+    );
+  }
+  return family;
+}
+
+function resolveFontFallbacks(
+  fontName: FontName,
+  input: unknown
+): FontFallbacks {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new FontValidationError(
+      "Fallbacks must be an object keyed by script."
+    );
+  }
+  const fallbacks: FontFallbacks = {};
+  for (const [key, value] of Object.entries(input)) {
+    const script = FONT_FALLBACK_SCRIPTS.find((candidate) => candidate === key);
+    if (!script) {
+      throw new FontValidationError(
+        `Unsupported fallback script '${key}'. Available options: ${FONT_FALLBACK_SCRIPTS.join(
+          ", "
+        )}.`
+      );
+    }
+    if (!Array.isArray(value) || value.length > MAX_FALLBACK_FAMILIES) {
+      throw new FontValidationError(
+        `'${script}' must be an array of at most ${MAX_FALLBACK_FAMILIES} family names.`
+      );
+    }
+    const families = Array.from(
+      new Set(value.map((family) => resolveFallbackFamily(fontName, family)))
+    );
+    if (families.length > 0) {
+      fallbacks[script] = families;
+    }
+  }
+  return fallbacks;
+}
+
+function resolveFontWeight(input: unknown): FontWeightKey {
+  if (input === undefined) return "Regular";
+  const weight = normalizeFontWeight(input);
+  if (!weight) {
+    throw new FontValidationError(
+      `Unsupported 'weight'. Available options: ${FONT_WEIGHT_KEYS.join(
+        ", "
+      )}.`
+    );
+  }
+  return weight;
+}
+
+export function createFontStore(directory: string): FontStore {
+  const manifestPath = join(directory, "fonts.json");
+  let manifest: FontManifest | null = null;
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  // Manifests written before fallbacks existed hold a plain font array.
+  async function readManifest() {
+    if (manifest) return manifest;
+    try {
+      const parsed = JSON.parse(await readFile(manifestPath, "utf-8"));
+      manifest = Array.isArray(parsed)
+        ? { fonts: parsed, fallbacks: {} }
+        : {
+            fonts: Array.isArray(parsed?.fonts) ? parsed.fonts : [],
+            fallbacks: parsed?.fallbacks ?? {},
+          };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+      manifest = { fonts: [], fallbacks: {} };
+    }
+    return manifest;
+  }
+
+  function persist(data: FontManifest) {
+    pendingWrite = pendingWrite.catch(() => undefined).then(async () => {
+      await mkdir(directory, { recursive: true });
+      const tempPath = `${manifestPath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(data, null, 2));
+      await rename(tempPath, manifestPath);
+    });
+    return pendingWrite;
+  }
+
+  return {
+    // Registers every persisted font with the canvas. Fonts that no longer
+    // load are reported and skipped so one bad file cannot block startup.
+    async load() {
+      const data = await readManifest();
+      const loaded: StoredFont[] = [];
+      for (const font of data.fonts) {
+        try {
+          if (!hasFontWeight(font.family, font.weight)) {
+            addFontToLibrary(font.family, font.weight, join(directory, font.file));
+          }
+          loaded.push(font);
+        } catch (error) {
+          console.error(
+            `Failed to load font ${font.family} (${font.weight}):`,
+            error
+          );
+        }
+      }
+      for (const [fontName, fallbacks] of Object.entries(data.fallbacks)) {
+        if (isFontName(fontName)) {
+          setFontFallbacks(fontName, fallbacks);
+        }
+      }
+      return loaded;
+    },
+
+    async save(input) {
+      const family = resolveFontFamily(input.family);
+      const weight = resolveFontWeight(input.weight);
+      if (input.buffer.length === 0) {
+        throw new FontValidationError("Font file is empty.");
+      }
+      if (input.buffer.length > MAX_FONT_FILE_BYTES) {
+        throw new FontValidationError("Font file is too large.", 413);
+      }
+      const format = detectFontFormat(input.buffer);
+      if (!format) {
+        throw new FontValidationError(
+          "Unsupported font file. Upload a TTF, OTF or WOFF2 font.",
+          415
+        );
+      }
+      if (isBuiltInFont(family)) {
+        throw new FontValidationError(
+          `'${family}' is a bundled font family and cannot be changed.`,
+          409
+        );
+      }
+      if (hasFontWeight(family, weight)) {
+        throw new FontValidationError(
+          `'${family}' already provides the '${weight}' weight.`,
+          409
+        );
+      }
+
+      const data = await readManifest();
+      const slug = family.toLowerCase().replace(/ /g, "-");
+      const file = `${slug}-${weight.toLowerCase()}-${uuidv4()}.${format}`;
+      const filePath = join(directory, file);
+      await mkdir(directory, { recursive: true });
+      await writeFile(filePath, input.buffer);
+
+      try {
+        addFontToLibrary(family, weight, filePath);
+      } catch {
+        await rm(filePath, { force: true });
+        if (hasFontWeight(family, weight)) {
+          throw new FontValidationError(
+            `'${family}' already provides the '${weight}' weight.`,
+            409
+          );
+        }
+        throw new FontValidationError(
+          "The font file could not be loaded. Ensure it is a valid font."
+        );
+      }
+
+      const font: StoredFont = {
+        family,
+        weight,
+        fontCssWeight: getFontCssWeight(weight),
+        format,
+        file,
+        createdAt: new Date().toISOString(),
+      };
+      data.fonts.push(font);
+      await persist(data);
+      return font;
+    },
+
+    async setFallbacks(fontName, input) {
+      const fallbacks = resolveFontFallbacks(fontName, input);
+      const data = await readManifest();
+      setFontFallbacks(fontName, fallbacks);
+      data.fallbacks[fontName] = fallbacks;
+      await persist(data);
+      return fallbacks;
+    },
+  };
+}
+
+export const fontStore = createFontStore(
+  resolve(process.cwd(), process.env.FONTS_DIR || "data/fonts")
+);
+
+export interface FontCatalogWeight {
+  weight: FontWeightKey;
+  fontCssWeight: string;
+  aliases: string[];
+  previewUrl: string;
+}
+
+export interface FontCatalogEntry {
+  name: FontName;
+  builtIn: boolean;
+  defaultWeight: FontWeightKey;
+  scripts: FontScript[];
+  fallbacks: FontFallbacks;
+  weights: FontCatalogWeight[];
+}
+
+const fontScriptCache = new Map<string, Promise<FontScript[]>>();
+
+export function detectFontScripts(fontPath: string): Promise<FontScript[]> {
+  let cached = fontScriptCache.get(fontPath);
+  if (!cached) {
+    cached = readFile(fontPath)
+      .then((data) => {
+        const font = fontkit.create(data);
+        return FONT_SCRIPTS.filter((script) =>
+          Array.from(FONT_SCRIPT_PROBES[script]).every((char) =>
+            font.hasGlyphForCodePoint(char.codePointAt(0) ?? 0)
+          )
+        );
+      })
+      .catch((error) => {
+        console.error(`Failed to inspect font ${fontPath}:`, error);
+        return [];
+      });
+    fontScriptCache.set(fontPath, cached);
+  }
+  return cached;
+}
+
+export function getFontPreviewUrl(fontName: FontName, weight: FontWeightKey) {
+  return `/fonts/${encodeURIComponent(fontName)}/${weight}/preview`;
+}
+
+// Scripts are read from the default weight's file; every weight of a family
+// is expected to cover the same characters.
+export async function describeFontCatalog(): Promise<FontCatalogEntry[]> {
+  return Promise.all(
+    listFontFamilies().map(async (family) => {
+      const fontPath = getFontFilePath(family.name, family.defaultWeight);
+      return {
+        name: family.name,
+        builtIn: family.builtIn,
+        defaultWeight: family.defaultWeight,
+        scripts: fontPath ? await detectFontScripts(fontPath) : [],
+        fallbacks: family.fallbacks,
+        weights: family.weights.map((weight) => ({
+          weight,
+          fontCssWeight: getFontCssWeight(weight),
+          aliases: getFontWeightAliases(weight),
+          previewUrl: getFontPreviewUrl(family.name, weight),
+        })),
+      };
+    })
+  );
+}
@@ -0,0 +1,27 @@
+import "../../config/env.js";
+import { createMemoryJobQueue } from "./memory.js";
+import { createRenderJobHandler } from "./runner.js";
+import { type JobQueue } from "./types.js";
+
+export { toPublicJob } from "./runner.js";
+export { resolveCallbackUrl } from "./webhook.js";
+export type {
+  JobProgress,
+  JobQueue,
+  JobStatus,
+  RenderJob,
+  RenderJobInput,
+} from "./types.js";
+
+const JOB_CONCURRENCY = Math.max(Number(process.env.JOB_CONCURRENCY) || 2, 1);
+const JOB_RETENTION_MS =
+  Math.max(Number(process.env.JOB_RETENTION_MINUTES) || 60, 1) * 60 * 1000;
+const JOB_MAX_PENDING = Math.max(Number(process.env.JOB_MAX_PENDING) || 100, 1);
+
+export const jobQueue: JobQueue = createMemoryJobQueue({
+  concurrency: JOB_CONCURRENCY,
+  retentionMs: JOB_RETENTION_MS,
+  maxPending: JOB_MAX_PENDING,
+});
+
+jobQueue.process(createRenderJobHandler(jobQueue));
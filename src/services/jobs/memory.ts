@@ -0,0 +1,92 @@
+import { v4 as uuidv4 } from "uuid";
+import { JobQueueFullError } from "../../errors.js";
+import { type JobHandler, type JobQueue, type RenderJob } from "./types.js";
+
+export interface MemoryJobQueueOptions {
+  concurrency: number;
+  retentionMs: number;
+  maxPending: number;
+}
+
+export function createMemoryJobQueue(
+  options: MemoryJobQueueOptions
+): JobQueue {
+  const jobs = new Map<string, RenderJob>();
+  const pending: string[] = [];
+  let handler: JobHandler | null = null;
+  let running = 0;
+
+  // Finished jobs are dropped after the retention window so the process does
+  // not keep every result (including base64 payloads) forever.
+  function scheduleExpiry(id: string) {
+    const timer = setTimeout(() => jobs.delete(id), options.retentionMs);
+    timer.unref();
+  }
+
+  function drain() {
+    while (handler && running < options.concurrency && pending.length > 0) {
+      const id = pending.shift();
+      const job = id ? jobs.get(id) : undefined;
+      if (!job) continue;
+      running += 1;
+      const activeHandler = handler;
+      activeHandler(job)
+        .catch((error) => {
+          console.error(`Job '${job.id}' handler failed:`, error);
+        })
+        .finally(() => {
+          running -= 1;
+          drain();
+        });
+    }
+  }
+
+  return {
+    name: "memory",
+
+    async enqueue(input) {
+      // Queued jobs keep their whole request body in memory until they run.
+      if (pending.length >= options.maxPending) {
+        throw new JobQueueFullError(options.maxPending);
+      }
+      const job: RenderJob = {
+        id: uuidv4(),
+        type: input.type,
+        status: "queued",
+        progress: { stage: "queued", completed: 0, total: 0 },
+        body: input.body,
+        createdAt: new Date().toISOString(),
+      };
+      if (input.callbackUrl) {
+        job.callback = { url: input.callbackUrl, status: "pending", attempts: 0 };
+      }
+      jobs.set(job.id, job);
+      pending.push(job.id);
+      setImmediate(drain);
+      return job;
+    },
+
+    async get(id) {
+      return jobs.get(id);
+    },
+
+    async update(id, update) {
+      const job = jobs.get(id);
+      if (!job) return undefined;
+      const updated = { ...job, ...update };
+      jobs.set(id, updated);
+      if (
+        job.status !== updated.status &&
+        (updated.status === "completed" || updated.status === "failed")
+      ) {
+        scheduleExpiry(id);
+      }
+      return updated;
+    },
+
+    process(nextHandler) {
+      handler = nextHandler;
+      drain();
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import { deliverRenderJob } from "../delivery.js";
+import { describeRenderError, prepareRenderJob } from "../render.js";
+import { type JobHandler, type JobQueue, type RenderJob } from "./types.js";
+import { sendJobCallback } from "./webhook.js";
+
+export function toPublicJob(job: RenderJob) {
+  const { body: _body, ...publicJob } = job;
+  return publicJob;
+}
+
+async function notifyCallback(queue: JobQueue, job: RenderJob | undefined) {
+  if (!job?.callback) return;
+  const { callback: _callback, ...payload } = toPublicJob(job);
+  const callback = await sendJobCallback(job.callback.url, payload);
+  await queue.update(job.id, { callback });
+}
+
+export function createRenderJobHandler(queue: JobQueue): JobHandler {
+  return async (job) => {
+    await queue.update(job.id, {
+      status: "running",
+      startedAt: new Date().toISOString(),
+      progress: { stage: "rendering", completed: 0, total: 0 },
+    });
+
+    let finished: RenderJob | undefined;
+    try {
+      const prepared = prepareRenderJob(job.type, job.body);
+      if (prepared.delivery === "inline") {
+        throw new Error("Inline delivery is not available for jobs.");
+      }
+
+      const { delivered, cacheStatus } = await deliverRenderJob(
+        prepared,
+        prepared.delivery,
+        {
+          onRenderProgress: (completed, total) => {
+            void queue.update(job.id, {
+              progress: { stage: "rendering", completed, total },
+            });
+          },
+          onDeliveryProgress: (completed, total) => {
+            void queue.update(job.id, {
+              progress: { stage: "delivering", completed, total },
+            });
+          },
+        }
+      );
+
+      const current = await queue.get(job.id);
+      finished = await queue.update(job.id, {
+        status: "completed",
+        finishedAt: new Date().toISOString(),
+        progress: { ...(current?.progress ?? job.progress), stage: "done" },
+        cache: cacheStatus,
+        result: { ...delivered, ...prepared.metadata },
+      });
+    } catch (error) {
+      const failure = describeRenderError(error);
+      if (failure.status >= 500) {
+        console.error(`Job '${job.id}' failed:`, error);
+      }
+      const current = await queue.get(job.id);
+      finished = await queue.update(job.id, {
+        status: "failed",
+        finishedAt: new Date().toISOString(),
+        progress: { ...(current?.progress ?? job.progress), stage: "done" },
+        error: failure,
+      });
+    }
+
+    await notifyCallback(queue, finished);
+  };
+}
@@ -0,0 +1,57 @@
+import { type RenderCacheStatus } from "../cache/index.js";
+import { type RenderFailure, type RenderJobType } from "../render.js";
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export type JobStage = "queued" | "rendering" | "delivering" | "done";
+
+export interface JobProgress {
+  stage: JobStage;
+  completed: number;
+  total: number;
+}
+
+export interface JobCallback {
+  url: string;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  error?: string;
+}
+
+// Records only hold JSON-serializable values so a shared store (e.g. Redis)
+// can persist them between the API process and separate workers.
+export interface RenderJob {
+  id: string;
+  type: RenderJobType;
+  status: JobStatus;
+  progress: JobProgress;
+  body: Record<string, any>;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  cache?: RenderCacheStatus;
+  result?: Record<string, unknown>;
+  error?: RenderFailure;
+  callback?: JobCallback;
+}
+
+export interface RenderJobInput {
+  type: RenderJobType;
+  body: Record<string, any>;
+  callbackUrl?: string;
+}
+
+export type RenderJobUpdate = Partial<
+  Omit<RenderJob, "id" | "type" | "body" | "createdAt">
+>;
+
+export type JobHandler = (job: RenderJob) => Promise<void>;
+
+export interface JobQueue {
+  readonly name: string;
+  enqueue(input: RenderJobInput): Promise<RenderJob>;
+  get(id: string): Promise<RenderJob | undefined>;
+  update(id: string, update: RenderJobUpdate): Promise<RenderJob | undefined>;
+  // Registers the worker that consumes queued jobs.
+  process(handler: JobHandler): void;
+}
@@ -0,0 +1,123 @@
+import "../../config/env.js";
+import axios from "axios";
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { type JobCallback } from "./types.js";
+
+const CALLBACK_MAX_ATTEMPTS = 3;
+const CALLBACK_TIMEOUT_MS = 10000;
+const CALLBACK_RETRY_DELAY_MS = 1000;
+const ALLOW_PRIVATE_CALLBACKS =
+  process.env.JOB_CALLBACK_ALLOW_PRIVATE === "true";
+
+// Callbacks must not reach the server's own network: loopback, private and
+// link-local ranges (including cloud metadata endpoints) are refused.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+function isPrivateAddress(address: string) {
+  const family = isIP(address);
+  return (
+    family !== 0 &&
+    PRIVATE_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+}
+
+function isPrivateHostname(hostname: string) {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  return (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    isPrivateAddress(host)
+  );
+}
+
+// Hostnames are checked again after resolution, so a public name that points
+// at an internal address is refused at delivery time.
+async function lookupPublicAddresses(hostname: string) {
+  const addresses = await lookup(hostname, { all: true });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`'${hostname}' resolves to a private network address.`);
+  }
+  return [addresses] as [typeof addresses];
+}
+
+type CallbackUrlSuccess = { ok: true; url: string };
+
+type CallbackUrlFailure = { ok: false; error: string };
+
+export type CallbackUrlResult = CallbackUrlSuccess | CallbackUrlFailure;
+
+export function resolveCallbackUrl(input: unknown): CallbackUrlResult {
+  if (typeof input !== "string" || !input.trim()) {
+    return { ok: false, error: "'callbackUrl' must be a non-empty string." };
+  }
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return { ok: false, error: "'callbackUrl' must be a valid URL." };
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return { ok: false, error: "'callbackUrl' must use http or https." };
+  }
+  if (!ALLOW_PRIVATE_CALLBACKS && isPrivateHostname(url.hostname)) {
+    return {
+      ok: false,
+      error: "'callbackUrl' must not point to a loopback or private address.",
+    };
+  }
+  return { ok: true, url: url.toString() };
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function sendJobCallback(
+  url: string,
+  payload: unknown
+): Promise<JobCallback> {
+  let lastError = "";
+  for (let attempt = 1; attempt <= CALLBACK_MAX_ATTEMPTS; attempt++) {
+    try {
+      await axios.post(url, payload, {
+        timeout: CALLBACK_TIMEOUT_MS,
+        maxRedirects: 0,
+        ...(ALLOW_PRIVATE_CALLBACKS ? {} : { lookup: lookupPublicAddresses }),
+      });
+      return { url, status: "delivered", attempts: attempt };
+    } catch (error) {
+      lastError = (error as Error).message;
+      if (attempt < CALLBACK_MAX_ATTEMPTS) {
+        await wait(CALLBACK_RETRY_DELAY_MS * attempt);
+      }
+    }
+  }
+  console.error(`Job callback to ${url} failed:`, lastError);
+  return {
+    url,
+    status: "failed",
+    attempts: CALLBACK_MAX_ATTEMPTS,
+    error: lastError,
+  };
+}
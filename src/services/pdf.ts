@@ -1,14 +1,18 @@
 import { PDFDocument } from "pdf-lib";
 
-export async function createPdfFromImages(
-  images: Buffer[],
-  width: number,
-  height: number
+export interface PdfImagePage {
+  image: Buffer;
+  width: number;
+  height: number;
+}
+
+export async function createPdfFromPages(
+  pages: PdfImagePage[]
 ): Promise<Buffer> {
   const pdfDoc = await PDFDocument.create();
 
-  for (const imageBuffer of images) {
-    const pngImage = await pdfDoc.embedPng(imageBuffer);
+  for (const { image, width, height } of pages) {
+    const pngImage = await pdfDoc.embedPng(image);
     const page = pdfDoc.addPage([width, height]);
     page.drawImage(pngImage, {
       x: 0,
@@ -22,3 +26,12 @@ export async function createPdfFromImages(
   return Buffer.from(pdfBytes);
 }
 
+export async function createPdfFromImages(
+  images: Buffer[],
+  width: number,
+  height: number
+): Promise<Buffer> {
+  return createPdfFromPages(
+    images.map((image) => ({ image, width, height }))
+  );
+}
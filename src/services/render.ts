@@ -0,0 +1,705 @@
+import { createCanvas } from "@napi-rs/canvas";
+import {
+  DEFAULT_BG_COLOR,
+  DEFAULT_FONT_SIZE,
+  DEFAULT_HEIGHT,
+  DEFAULT_LETTER_SPACING,
+  DEFAULT_PADDING,
+  DEFAULT_TEXT_COLOR,
+  DEFAULT_WIDTH,
+} from "../config/constants.js";
+import {
+  buildFontStack,
+  getRegisteredFontPath,
+  resolveFontRequest,
+} from "../config/fonts.js";
+import {
+  ImageValidationError,
+  SceneSchemaError,
+  SceneValidationError,
+  UploadError,
+  type SceneValidationIssue,
+} from "../errors.js";
+import {
+  composeScenePages,
+  parseMasterNodes,
+  parseScenePages,
+} from "../scene/document.js";
+import {
+  getContentType,
+  getFileExtension,
+  isTransparentColor,
+  PNG_ENCODING,
+  resolveImageQuality,
+  resolveOutputFormat,
+  supportsTransparency,
+  usesQuality,
+  type ImageEncodingOptions,
+  type OutputFormat,
+} from "../scene/encode.js";
+import {
+  isTransparentBackground,
+  resolveImageBackground,
+} from "../scene/fills.js";
+import { computeSceneLayout, serializeLayoutNode } from "../scene/layout.js";
+import {
+  calculateMaxLines,
+  generateImage,
+  paginateText,
+} from "../scene/pagination.js";
+import {
+  renderLayoutsToVectorPdf,
+  renderTextPagesToVectorPdf,
+  resolvePdfMode,
+  type PdfMode,
+} from "../scene/pdf.js";
+import { renderLayoutToImage } from "../scene/render.js";
+import { renderLayoutToSvg } from "../scene/svg.js";
+import {
+  getTextEffectsBleed,
+  normalizeTextContent,
+  resolveTextAlign,
+  resolveTextDecoration,
+  resolveTextDecorationLine,
+  resolveTextDigits,
+  resolveTextDirection,
+  resolveTextLineBackground,
+  resolveTextShadows,
+  resolveTextStroke,
+  resolveWordBreak,
+  type TextEffects,
+} from "../scene/text.js";
+import { type LayoutNodeResult, type ScenePageLayout } from "../scene/types.js";
+import {
+  assertValidScenePages,
+  resolveValidationMode,
+} from "../scene/validate.js";
+import { createRenderCacheKey } from "./cache/index.js";
+import {
+  resolveDeliveryMode,
+  type DeliveryMode,
+  type RenderedFile,
+} from "./delivery.js";
+import {
+  createPdfFromImages,
+  createPdfFromPages,
+  type PdfImagePage,
+} from "./pdf.js";
+
+export type RenderJobType = "image" | "scene";
+
+export const RENDER_JOB_TYPES: RenderJobType[] = ["image", "scene"];
+
+export type RenderProgressHandler = (completed: number, total: number) => void;
+
+export interface RenderJobOptions {
+  // Called after each page has been rendered.
+  onProgress?: RenderProgressHandler | undefined;
+}
+
+export interface RenderFailure {
+  status: number;
+  error: string;
+  details?: string;
+  issues?: SceneValidationIssue[];
+}
+
+// A validated request whose files have not been rendered yet, so callers can
+// consult the render cache before doing the expensive work.
+export interface PreparedRenderJob {
+  cacheKey: string;
+  delivery: DeliveryMode;
+  useUploadThing: boolean;
+  // Response fields returned alongside the delivered files.
+  metadata: Record<string, unknown>;
+  render(options?: RenderJobOptions): Promise<RenderedFile[]>;
+}
+
+export interface RenderJobResult
+  extends Omit<PreparedRenderJob, "render"> {
+  files: RenderedFile[];
+}
+
+export function prepareImageJob(body: Record<string, any>): PreparedRenderJob {
+  const sourceText = String(body.text);
+  if (typeof sourceText !== "string" || !sourceText.trim()) {
+    throw new ImageValidationError("Missing or invalid 'text' field.");
+  }
+  const digitsResolution = resolveTextDigits(body.digits);
+  if (!digitsResolution.ok) {
+    throw new ImageValidationError(digitsResolution.error);
+  }
+  const text = normalizeTextContent(sourceText, {
+    normalize: body.normalize === true,
+    digits: digitsResolution.digits,
+  });
+
+  const width = body.width ? parseInt(String(body.width)) : DEFAULT_WIDTH;
+  const height = body.height ? parseInt(String(body.height)) : DEFAULT_HEIGHT;
+  const bgColorResolution = resolveImageBackground(
+    body.bgColor || DEFAULT_BG_COLOR
+  );
+  if (!bgColorResolution.ok) {
+    throw new ImageValidationError(bgColorResolution.error);
+  }
+  const bgColor = bgColorResolution.background;
+  const textColor = body.textColor || DEFAULT_TEXT_COLOR;
+  const fontSize = body.fontSize
+    ? parseInt(String(body.fontSize))
+    : DEFAULT_FONT_SIZE;
+  const letterSpacing =
+    body.letterSpacing !== undefined
+      ? parseInt(String(body.letterSpacing))
+      : DEFAULT_LETTER_SPACING;
+  const padding = body.padding ? parseInt(String(body.padding)) : DEFAULT_PADDING;
+  const useUploadThing = body.useUploadThing === true;
+  const formatResolution = resolveOutputFormat(body.outputFormat);
+  if (!formatResolution.ok) {
+    throw new ImageValidationError(formatResolution.error);
+  }
+  const outputFormat = formatResolution.format;
+  if (outputFormat === "svg") {
+    throw new ImageValidationError(
+      "'svg' output is only available for /scene."
+    );
+  }
+  const qualityResolution = resolveImageQuality(body.quality);
+  if (!qualityResolution.ok) {
+    throw new ImageValidationError(qualityResolution.error);
+  }
+  if (isTransparentBackground(bgColor) && !supportsTransparency(outputFormat)) {
+    throw new ImageValidationError(
+      `'${outputFormat}' output does not support a transparent background.`
+    );
+  }
+  const encoding: ImageEncodingOptions =
+    outputFormat === "pdf"
+      ? PNG_ENCODING
+      : { format: outputFormat, quality: qualityResolution.quality };
+  const pdfModeResolution = resolvePdfMode(body.pdfMode);
+  if (!pdfModeResolution.ok) {
+    throw new ImageValidationError(pdfModeResolution.error);
+  }
+  const pdfMode = pdfModeResolution.mode;
+  const pdfLayout =
+    typeof body.pdfLayout === "string" &&
+    body.pdfLayout.toLowerCase() === "separate"
+      ? "separate"
+      : "combined";
+  const deliveryResolution = resolveDeliveryMode(body.delivery);
+  if (!deliveryResolution.ok) {
+    throw new ImageValidationError(deliveryResolution.error);
+  }
+  const delivery = deliveryResolution.mode;
+  const directionResolution = resolveTextDirection(body.textDirection, text);
+  if (!directionResolution.ok) {
+    throw new ImageValidationError(directionResolution.error);
+  }
+  const textDirection = directionResolution.direction;
+  const wordBreakResolution = resolveWordBreak(body.wordBreak);
+  if (!wordBreakResolution.ok) {
+    throw new ImageValidationError(wordBreakResolution.error);
+  }
+  const wordBreak = wordBreakResolution.wordBreak;
+  const alignResolution = resolveTextAlign(body.textAlign);
+  if (!alignResolution.ok) {
+    throw new ImageValidationError(alignResolution.error);
+  }
+  const textAlign = alignResolution.textAlign;
+  const strokeResolution = resolveTextStroke(body.textStroke);
+  if (!strokeResolution.ok) {
+    throw new ImageValidationError(strokeResolution.error);
+  }
+  const textStroke = strokeResolution.stroke;
+  const shadowsResolution = resolveTextShadows(body.textShadow);
+  if (!shadowsResolution.ok) {
+    throw new ImageValidationError(shadowsResolution.error);
+  }
+  const textShadow = shadowsResolution.shadows;
+  const decorationResolution = resolveTextDecoration(body.textDecoration);
+  if (!decorationResolution.ok) {
+    throw new ImageValidationError(decorationResolution.error);
+  }
+  const textDecoration = decorationResolution.decoration;
+  const backgroundResolution = resolveTextLineBackground(body.lineBackground);
+  if (!backgroundResolution.ok) {
+    throw new ImageValidationError(backgroundResolution.error);
+  }
+  const lineBackground = backgroundResolution.lineBackground;
+
+  if (width < 100 || width > 10000 || height < 100 || height > 10000) {
+    throw new ImageValidationError(
+      "Width and height must be between 100 and 10000 pixels."
+    );
+  }
+
+  if (padding < 0 || padding >= Math.min(width, height) / 2) {
+    throw new ImageValidationError(
+      "Padding must be non-negative and less than half of the smallest dimension."
+    );
+  }
+
+  const fontResolution = resolveFontRequest(body.fontName, body.fontWeight);
+  if (!fontResolution.ok) {
+    throw new ImageValidationError(fontResolution.error);
+  }
+  const { fontFamily, fontCssWeight, fallbackFamilies } = fontResolution;
+
+  const tempCanvas = createCanvas(width, height);
+  const tempCtx = tempCanvas.getContext("2d");
+  tempCtx.font = buildFontStack(
+    fontCssWeight,
+    fontSize,
+    fontFamily,
+    fallbackFamilies
+  );
+
+  const effects: TextEffects = {
+    stroke: textStroke,
+    shadows: textShadow,
+    decoration: resolveTextDecorationLine(textDecoration, fontFamily, fontSize),
+  };
+  const bleed = getTextEffectsBleed(effects, lineBackground);
+  const maxLinesPerPage = calculateMaxLines(
+    height - bleed.top - bleed.bottom,
+    padding,
+    fontSize
+  );
+  if (maxLinesPerPage < 1) {
+    throw new ImageValidationError(
+      "Image dimensions are too small to fit any text. Increase height or decrease padding/fontSize."
+    );
+  }
+
+  const maxTextWidth = width - 2 * padding - bleed.left - bleed.right;
+  if (maxTextWidth <= 0) {
+    throw new ImageValidationError(
+      "Text effects and line background leave no room for text. Increase width or decrease padding."
+    );
+  }
+  const pages = paginateText(
+    tempCtx,
+    text,
+    maxTextWidth,
+    maxLinesPerPage,
+    letterSpacing,
+    { fontFamily, fontCssWeight, fontSize, fallbackFamilies },
+    textDirection,
+    wordBreak
+  );
+
+  const textPages = pages.filter((pageLines) => pageLines.length > 0);
+  if (textPages.length === 0) {
+    throw new ImageValidationError("No pages were generated.", 500);
+  }
+
+  const shouldCombine = pdfLayout === "combined" || textPages.length === 1;
+  const cacheKey = createRenderCacheKey({
+    type: "image",
+    text,
+    width,
+    height,
+    bgColor,
+    textColor,
+    fontSize,
+    letterSpacing,
+    padding,
+    textDirection,
+    wordBreak,
+    textAlign,
+    textStroke,
+    textShadow,
+    textDecoration,
+    lineBackground,
+    font: {
+      family: fontFamily,
+      weight: fontCssWeight,
+      path: getRegisteredFontPath(fontFamily),
+      fallbacks: fallbackFamilies,
+    },
+    outputFormat,
+    quality: usesQuality(outputFormat) ? encoding.quality : undefined,
+    pdfMode: outputFormat === "pdf" ? pdfMode : undefined,
+    pdfLayout:
+      outputFormat === "pdf"
+        ? shouldCombine
+          ? "combined"
+          : "separate"
+        : undefined,
+    useUploadThing,
+  });
+
+  let metadata: Record<string, unknown>;
+  if (outputFormat === "pdf") {
+    metadata = shouldCombine
+      ? {
+          format: "pdf",
+          pageCount: textPages.length,
+          layout: "combined",
+        }
+      : {
+          format: "pdf",
+          pageCount: textPages.length,
+          layout: "separate",
+          message: `Generated ${textPages.length} separate PDF files covering ${textPages.length} pages.`,
+        };
+  } else {
+    metadata =
+      textPages.length === 1
+        ? {}
+        : {
+            pageCount: textPages.length,
+            message: `Text was split into ${textPages.length} pages`,
+          };
+  }
+
+  const render = async (options?: RenderJobOptions) => {
+    const pageBuffers: Buffer[] = [];
+
+    if (outputFormat !== "pdf" || pdfMode === "raster") {
+      for (const [pageIndex, pageLines] of textPages.entries()) {
+        const buffer = await generateImage(
+          pageLines,
+          width,
+          height,
+          bgColor,
+          textColor,
+          fontSize,
+          letterSpacing,
+          padding,
+          fontFamily,
+          fontCssWeight,
+          fallbackFamilies,
+          textDirection,
+          encoding,
+          textAlign,
+          pageIndex === textPages.length - 1,
+          effects,
+          lineBackground
+        );
+        pageBuffers.push(buffer);
+        options?.onProgress?.(pageBuffers.length, textPages.length);
+      }
+    }
+
+    const files: RenderedFile[] = [];
+
+    if (outputFormat === "pdf") {
+      const pdfBuffers: Buffer[] = [];
+      const renderPdf = (pageIndexes: number[]) =>
+        pdfMode === "vector"
+          ? renderTextPagesToVectorPdf(
+              pageIndexes.map((index) => textPages[index] ?? []),
+              {
+                width,
+                height,
+                bgColor,
+                textColor,
+                fontSize,
+                letterSpacing,
+                padding,
+                fontFamily,
+                fontCssWeight,
+                fallbackFamilies,
+                textDirection,
+                textAlign,
+                endsText:
+                  pageIndexes[pageIndexes.length - 1] === textPages.length - 1,
+                effects,
+                lineBackground,
+              }
+            )
+          : createPdfFromImages(
+              pageIndexes.flatMap((index) => pageBuffers[index] ?? []),
+              width,
+              height
+            );
+
+      if (shouldCombine) {
+        pdfBuffers.push(await renderPdf(textPages.map((_, index) => index)));
+      } else {
+        for (let index = 0; index < textPages.length; index++) {
+          pdfBuffers.push(await renderPdf([index]));
+        }
+      }
+      if (pdfMode === "vector") {
+        options?.onProgress?.(textPages.length, textPages.length);
+      }
+
+      for (let i = 0; i < pdfBuffers.length; i++) {
+        const pdfBuffer = pdfBuffers[i];
+        if (!pdfBuffer) continue;
+        files.push({
+          buffer: pdfBuffer,
+          filename:
+            pdfBuffers.length === 1
+              ? `${cacheKey}.pdf`
+              : `${cacheKey}-part-${i + 1}.pdf`,
+          contentType: "application/pdf",
+        });
+      }
+      return files;
+    }
+
+    for (let pageIndex = 0; pageIndex < pageBuffers.length; pageIndex++) {
+      const buffer = pageBuffers[pageIndex];
+      if (!buffer) continue;
+      files.push({
+        buffer,
+        filename: `${cacheKey}-page-${pageIndex + 1}.${getFileExtension(
+          outputFormat
+        )}`,
+        contentType: getContentType(outputFormat),
+      });
+    }
+    return files;
+  };
+
+  return { cacheKey, delivery, useUploadThing, metadata, render };
+}
+
+function describeOutputFormat(outputFormat: OutputFormat) {
+  return outputFormat === "pdf" || outputFormat === "svg"
+    ? outputFormat
+    : "image";
+}
+
+async function renderSceneFiles(
+  pages: ScenePageLayout[],
+  outputFormat: OutputFormat,
+  quality: number,
+  pdfMode: PdfMode,
+  filenameBase: string,
+  onProgress?: RenderProgressHandler
+): Promise<RenderedFile[]> {
+  const extension = getFileExtension(outputFormat);
+  const contentType = getContentType(outputFormat);
+
+  if (outputFormat === "pdf") {
+    let buffer: Buffer;
+    if (pdfMode === "vector") {
+      buffer = await renderLayoutsToVectorPdf(pages);
+      onProgress?.(pages.length, pages.length);
+    } else {
+      const pdfPages: PdfImagePage[] = [];
+      for (const { layout, backgroundColor } of pages) {
+        pdfPages.push({
+          image: await renderLayoutToImage(
+            layout,
+            backgroundColor,
+            PNG_ENCODING
+          ),
+          width: Math.ceil(layout.width),
+          height: Math.ceil(layout.height),
+        });
+        onProgress?.(pdfPages.length, pages.length);
+      }
+      buffer = await createPdfFromPages(pdfPages);
+    }
+    return [{ buffer, filename: `${filenameBase}.pdf`, contentType }];
+  }
+
+  const files: RenderedFile[] = [];
+  for (let index = 0; index < pages.length; index++) {
+    const page = pages[index];
+    if (!page) continue;
+    const buffer =
+      outputFormat === "svg"
+        ? await renderLayoutToSvg(page.layout, page.backgroundColor)
+        : await renderLayoutToImage(page.layout, page.backgroundColor, {
+            format: outputFormat,
+            quality,
+          });
+    files.push({
+      buffer,
+      filename:
+        pages.length === 1
+          ? `${filenameBase}.${extension}`
+          : `${filenameBase}-page-${index + 1}.${extension}`,
+      contentType,
+    });
+    onProgress?.(files.length, pages.length);
+  }
+  return files;
+}
+
+function parseDimensionOverride(value: unknown, name: "width" | "height") {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new SceneValidationError(
+      `'${name}' override must be a positive number.`
+    );
+  }
+  return parsed;
+}
+
+// Hashes everything that affects the painted output: normalized nodes, computed
+// geometry, wrapped text lines and the font files they resolve to.
+function fingerprintLayout(layout: LayoutNodeResult): unknown {
+  const { children: _children, ...node } = layout.node;
+  return {
+    node,
+    x: layout.absX,
+    y: layout.absY,
+    width: layout.width,
+    height: layout.height,
+    text: layout.textLayout && {
+      ...layout.textLayout,
+      fontPaths: layout.textLayout.styles.map((style) =>
+        getRegisteredFontPath(style.fontFamily)
+      ),
+    },
+    children: layout.children.map(fingerprintLayout),
+  };
+}
+
+export function prepareSceneJob(body: Record<string, any>): PreparedRenderJob {
+  const isMultiPage = body.pages !== undefined;
+  const sceneConfigs = parseScenePages(body.pages, body.scene);
+  const master = parseMasterNodes(body.master);
+
+  if (body.width !== undefined) {
+    const width = parseDimensionOverride(body.width, "width");
+    sceneConfigs.forEach((sceneConfig) => {
+      sceneConfig.width = width;
+    });
+  }
+
+  if (body.height !== undefined) {
+    const height = parseDimensionOverride(body.height, "height");
+    sceneConfigs.forEach((sceneConfig) => {
+      sceneConfig.height = height;
+    });
+  }
+
+  const validationResolution = resolveValidationMode(body.validation);
+  if (!validationResolution.ok) {
+    throw new SceneValidationError(validationResolution.error);
+  }
+  if (validationResolution.mode === "strict") {
+    assertValidScenePages(
+      sceneConfigs.map((node, index) => ({
+        path: isMultiPage ? `pages[${index}]` : "scene",
+        node,
+      })),
+      master.map((node, index) => ({
+        path: Array.isArray(body.master) ? `master[${index}]` : "master",
+        node,
+      }))
+    );
+  }
+
+  const useUploadThing = body.useUploadThing === true;
+  const formatResolution = resolveOutputFormat(body.outputFormat);
+  if (!formatResolution.ok) {
+    throw new SceneValidationError(formatResolution.error);
+  }
+  const outputFormat = formatResolution.format;
+  const qualityResolution = resolveImageQuality(body.quality);
+  if (!qualityResolution.ok) {
+    throw new SceneValidationError(qualityResolution.error);
+  }
+  const pdfModeResolution = resolvePdfMode(body.pdfMode);
+  if (!pdfModeResolution.ok) {
+    throw new SceneValidationError(pdfModeResolution.error);
+  }
+  const deliveryResolution = resolveDeliveryMode(body.delivery);
+  if (!deliveryResolution.ok) {
+    throw new SceneValidationError(deliveryResolution.error);
+  }
+  const delivery = deliveryResolution.mode;
+
+  const backgroundColors = sceneConfigs.map((sceneConfig) =>
+    typeof body.backgroundColor === "string"
+      ? body.backgroundColor
+      : sceneConfig.backgroundColor ?? DEFAULT_BG_COLOR
+  );
+  if (
+    backgroundColors.some(isTransparentColor) &&
+    !supportsTransparency(outputFormat)
+  ) {
+    throw new SceneValidationError(
+      `'${outputFormat}' output does not support a transparent background.`
+    );
+  }
+
+  const composedScenes = composeScenePages(sceneConfigs, master);
+
+  const pages: ScenePageLayout[] = composedScenes.map((scene, index) => ({
+    layout: computeSceneLayout(scene),
+    backgroundColor: backgroundColors[index] ?? DEFAULT_BG_COLOR,
+  }));
+  const pageSummaries = pages.map(({ layout }) => ({
+    dimensions: {
+      width: Math.ceil(layout.width),
+      height: Math.ceil(layout.height),
+    },
+    layout: serializeLayoutNode(layout),
+  }));
+
+  const cacheKey = createRenderCacheKey({
+    type: "scene",
+    pages: pages.map(({ layout, backgroundColor }) => ({
+      layout: fingerprintLayout(layout),
+      backgroundColor,
+    })),
+    outputFormat,
+    quality: usesQuality(outputFormat) ? qualityResolution.quality : undefined,
+    pdfMode: outputFormat === "pdf" ? pdfModeResolution.mode : undefined,
+    useUploadThing,
+  });
+
+  const metadata: Record<string, unknown> = {
+    format: describeOutputFormat(outputFormat),
+    contentType: getContentType(outputFormat),
+    ...(isMultiPage
+      ? { pageCount: pages.length, pages: pageSummaries }
+      : pageSummaries[0]),
+  };
+  const render = (options?: RenderJobOptions) =>
+    renderSceneFiles(
+      pages,
+      outputFormat,
+      qualityResolution.quality,
+      pdfModeResolution.mode,
+      cacheKey,
+      options?.onProgress
+    );
+  return { cacheKey, delivery, useUploadThing, metadata, render };
+}
+
+export function prepareRenderJob(
+  type: RenderJobType,
+  body: Record<string, any>
+): PreparedRenderJob {
+  return type === "image" ? prepareImageJob(body) : prepareSceneJob(body);
+}
+
+export async function runRenderJob(
+  type: RenderJobType,
+  body: Record<string, any>,
+  options?: RenderJobOptions
+): Promise<RenderJobResult> {
+  const { render, ...job } = prepareRenderJob(type, body);
+  return { ...job, files: await render(options) };
+}
+
+export function describeRenderError(error: unknown): RenderFailure {
+  if (error instanceof SceneSchemaError) {
+    return {
+      status: error.statusCode,
+      error: error.message,
+      issues: error.issues,
+    };
+  }
+  if (
+    error instanceof ImageValidationError ||
+    error instanceof SceneValidationError
+  ) {
+    return { status: error.statusCode, error: error.message };
+  }
+  if (error instanceof UploadError) {
+    return { status: 500, error: error.message, details: error.details };
+  }
+  return { status: 500, error: "Failed to render job." };
+}
@@ -0,0 +1,61 @@
+import "../../config/env.js";
+import { liaraStorageDriver } from "./liara.js";
+import { localStorageDriver } from "./local.js";
+import { type StorageDriver, type StorageDriverName } from "./types.js";
+import { uploadThingStorageDriver } from "./uploadthing.js";
+
+export { getLocalStorageDirectory, LOCAL_STORAGE_ROUTE } from "./local.js";
+export type { StorageDriver, StorageDriverName, StoredObject } from "./types.js";
+
+const STORAGE_DRIVERS: Record<StorageDriverName, StorageDriver> = {
+  liara: liaraStorageDriver,
+  uploadthing: uploadThingStorageDriver,
+  local: localStorageDriver,
+};
+
+const DEFAULT_STORAGE_DRIVER_ORDER: StorageDriverName[] = [
+  "liara",
+  "uploadthing",
+];
+
+function isStorageDriverName(value: string): value is StorageDriverName {
+  return Object.prototype.hasOwnProperty.call(STORAGE_DRIVERS, value);
+}
+
+function parseStorageDriverOrder(input?: string): StorageDriverName[] {
+  if (!input || !input.trim()) {
+    return DEFAULT_STORAGE_DRIVER_ORDER;
+  }
+  const names: StorageDriverName[] = [];
+  for (const entry of input.split(",")) {
+    const name = entry.trim().toLowerCase();
+    if (!name) continue;
+    if (!isStorageDriverName(name)) {
+      throw new Error(
+        `Unsupported storage driver '${name}' in STORAGE_DRIVERS. Available options: ${Object.keys(
+          STORAGE_DRIVERS
+        ).join(", ")}.`
+      );
+    }
+    if (!names.includes(name)) {
+      names.push(name);
+    }
+  }
+  return names.length ? names : DEFAULT_STORAGE_DRIVER_ORDER;
+}
+
+const storageDriverOrder = parseStorageDriverOrder(
+  process.env.STORAGE_DRIVERS
+);
+
+export function getStorageDriver(name: StorageDriverName): StorageDriver {
+  return STORAGE_DRIVERS[name];
+}
+
+export function getStorageDrivers(): StorageDriver[] {
+  return storageDriverOrder.map(getStorageDriver);
+}
+
+export function isStorageDriverEnabled(name: StorageDriverName) {
+  return storageDriverOrder.includes(name);
+}
@@ -0,0 +1,58 @@
+import "../../config/env.js";
+import {
+  DeleteObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { type StorageDriver } from "./types.js";
+
+const LIARA_ENDPOINT =
+  process.env.LIARA_ENDPOINT || "https://storage.iran.liara.space";
+const LIARA_BUCKET = process.env.LIARA_BUCKET || "";
+const LIARA_PUBLIC_URL = process.env.LIARA_PUBLIC_URL || "";
+
+const liaraS3Client = new S3Client({
+  endpoint: LIARA_ENDPOINT,
+  region: process.env.LIARA_REGION || "us-east-1",
+  credentials: {
+    accessKeyId: process.env.LIARA_ACCESS_KEY || "",
+    secretAccessKey: process.env.LIARA_SECRET_KEY || "",
+  },
+  forcePathStyle: true,
+});
+
+export const liaraStorageDriver: StorageDriver = {
+  name: "liara",
+
+  isConfigured() {
+    return Boolean(
+      LIARA_BUCKET &&
+        process.env.LIARA_ACCESS_KEY &&
+        process.env.LIARA_SECRET_KEY
+    );
+  },
+
+  async put(key, buffer, contentType) {
+    const command = new PutObjectCommand({
+      Bucket: LIARA_BUCKET,
+      Key: key,
+      Body: buffer,
+      ContentType: contentType,
+      ACL: "public-read",
+    });
+    await liaraS3Client.send(command);
+    return { driver: "liara", key, url: this.getPublicUrl(key) };
+  },
+
+  getPublicUrl(key) {
+    return LIARA_PUBLIC_URL
+      ? `${LIARA_PUBLIC_URL}/${key}`
+      : `${LIARA_ENDPOINT}/${LIARA_BUCKET}/${key}`;
+  },
+
+  async delete(key) {
+    await liaraS3Client.send(
+      new DeleteObjectCommand({ Bucket: LIARA_BUCKET, Key: key })
+    );
+  },
+};
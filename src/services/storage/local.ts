@@ -0,0 +1,53 @@
+import "../../config/env.js";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { dirname, resolve, sep } from "path";
+import { type StorageDriver } from "./types.js";
+
+export const LOCAL_STORAGE_ROUTE = "/files";
+
+const LOCAL_STORAGE_DIR = resolve(
+  process.cwd(),
+  process.env.LOCAL_STORAGE_DIR || "storage"
+);
+const LOCAL_STORAGE_PUBLIC_URL = (
+  process.env.LOCAL_STORAGE_PUBLIC_URL ||
+  `http://localhost:${Number(process.env.PORT) || 3000}${LOCAL_STORAGE_ROUTE}`
+).replace(/\/+$/, "");
+
+export function getLocalStorageDirectory() {
+  return LOCAL_STORAGE_DIR;
+}
+
+function resolveLocalPath(key: string) {
+  const filePath = resolve(LOCAL_STORAGE_DIR, key);
+  if (!filePath.startsWith(LOCAL_STORAGE_DIR + sep)) {
+    throw new Error(`Invalid storage key '${key}'`);
+  }
+  return filePath;
+}
+
+export const localStorageDriver: StorageDriver = {
+  name: "local",
+
+  isConfigured() {
+    return true;
+  },
+
+  async put(key, buffer) {
+    const filePath = resolveLocalPath(key);
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, buffer);
+    return { driver: "local", key, url: this.getPublicUrl(key) };
+  },
+
+  getPublicUrl(key) {
+    return `${LOCAL_STORAGE_PUBLIC_URL}/${key
+      .split("/")
+      .map(encodeURIComponent)
+      .join("/")}`;
+  },
+
+  async delete(key) {
+    await rm(resolveLocalPath(key), { force: true });
+  },
+};
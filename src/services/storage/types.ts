@@ -0,0 +1,15 @@
+export type StorageDriverName = "liara" | "uploadthing" | "local";
+
+export interface StoredObject {
+  driver: StorageDriverName;
+  key: string;
+  url: string;
+}
+
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  isConfigured(): boolean;
+  put(key: string, buffer: Buffer, contentType: string): Promise<StoredObject>;
+  getPublicUrl(key: string): string;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,61 @@
+import "../../config/env.js";
+import { UTApi } from "uploadthing/server";
+import { type StorageDriver } from "./types.js";
+
+// Polyfill File class for Node.js if not available
+let FileClass: typeof File;
+try {
+  FileClass = File;
+} catch {
+  FileClass = class FilePolyfill extends Blob {
+    name: string;
+    lastModified: number;
+    constructor(parts: any[], filename: string, options: any = {}) {
+      super(parts, options);
+      this.name = filename;
+      this.lastModified = options.lastModified || Date.now();
+    }
+  } as any;
+}
+
+function createUtApi() {
+  const uploadthingToken = process.env.UPLOADTHING_TOKEN;
+  if (!uploadthingToken) {
+    throw new Error("UploadThing token not set in .env");
+  }
+  return new UTApi({ token: uploadthingToken });
+}
+
+export const uploadThingStorageDriver: StorageDriver = {
+  name: "uploadthing",
+
+  isConfigured() {
+    return Boolean(process.env.UPLOADTHING_TOKEN);
+  },
+
+  async put(key, buffer, contentType) {
+    const utapi = createUtApi();
+    const file = new FileClass([buffer], key, { type: contentType });
+    const uploadRes = await utapi.uploadFiles(file as any);
+    if (!uploadRes || !uploadRes.data || !uploadRes.data.url) {
+      throw new Error("Failed to upload image to UploadThing");
+    }
+    return {
+      driver: "uploadthing",
+      key: uploadRes.data.key,
+      url: uploadRes.data.url,
+    };
+  },
+
+  // UploadThing assigns its own file keys; `key` is the one returned by `put`.
+  getPublicUrl(key) {
+    return `https://utfs.io/f/${key}`;
+  },
+
+  async delete(key) {
+    const result = await createUtApi().deleteFiles(key);
+    if (!result.success) {
+      throw new Error(`Failed to delete '${key}' from UploadThing`);
+    }
+  },
+};
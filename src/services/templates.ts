@@ -0,0 +1,88 @@
+import "../config/env.js";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname, resolve } from "path";
+import { v4 as uuidv4 } from "uuid";
+import { type SceneNodeInput } from "../scene/types.js";
+
+export interface SceneTemplate {
+  id: string;
+  name?: string;
+  scene?: SceneNodeInput;
+  pages?: SceneNodeInput[];
+  master?: SceneNodeInput[];
+  createdAt: string;
+}
+
+export type SceneTemplateInput = Omit<SceneTemplate, "id" | "createdAt">;
+
+export interface TemplateStore {
+  create(input: SceneTemplateInput): Promise<SceneTemplate>;
+  get(id: string): Promise<SceneTemplate | undefined>;
+}
+
+export function createJsonTemplateStore(filePath: string): TemplateStore {
+  let templates: Promise<Map<string, SceneTemplate>> | null = null;
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  async function readTemplates() {
+    try {
+      const parsed = JSON.parse(await readFile(filePath, "utf-8"));
+      return new Map<string, SceneTemplate>(
+        (Array.isArray(parsed) ? parsed : []).map((template: SceneTemplate) => [
+          template.id,
+          template,
+        ])
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+      return new Map<string, SceneTemplate>();
+    }
+  }
+
+  // Concurrent first requests share one read; a failed read is retried on
+  // the next request.
+  function load() {
+    templates ??= readTemplates().catch((error) => {
+      templates = null;
+      throw error;
+    });
+    return templates;
+  }
+
+  function persist(entries: Map<string, SceneTemplate>) {
+    pendingWrite = pendingWrite.catch(() => undefined).then(async () => {
+      await mkdir(dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await writeFile(
+        tempPath,
+        JSON.stringify(Array.from(entries.values()), null, 2)
+      );
+      await rename(tempPath, filePath);
+    });
+    return pendingWrite;
+  }
+
+  return {
+    async create(input) {
+      const entries = await load();
+      const template: SceneTemplate = {
+        ...input,
+        id: uuidv4(),
+        createdAt: new Date().toISOString(),
+      };
+      entries.set(template.id, template);
+      await persist(entries);
+      return template;
+    },
+
+    async get(id) {
+      return (await load()).get(id);
+    },
+  };
+}
+
+export const templateStore = createJsonTemplateStore(
+  resolve(process.cwd(), process.env.TEMPLATE_STORE_PATH || "data/templates.json")
+);